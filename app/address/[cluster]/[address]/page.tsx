@@ -0,0 +1,45 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getCachedExplanation, loadAddressPermalink } from '@/app/api/chat/helpers/permalinks';
+import PermalinkHeader from '@/app/components/PermalinkHeader';
+import AddressSummary from '@/app/components/AddressSummary';
+import StreamedExplanation from '@/app/components/StreamedExplanation';
+import { describeAddress, explanationApi } from '@/app/utils/permalinkUtils';
+
+interface AddressPageProps {
+  params: Promise<{ cluster: string; address: string }>;
+}
+
+export async function generateMetadata({ params }: AddressPageProps): Promise<Metadata> {
+  const { cluster, address } = await params;
+  const analysis = await loadAddressPermalink(cluster, address);
+  if (!analysis) return { title: 'Address not found - AI Explorer' };
+
+  const { title, description } = describeAddress(analysis);
+  return {
+    title: `${title} - AI Explorer`,
+    description,
+    openGraph: { title, description, type: 'profile', siteName: 'AISolxplorer' },
+    twitter: { card: 'summary', title, description }
+  };
+}
+
+// /address/[cluster]/[address]: account analysis rendered on the server, the AI explanation reused or streamed in after
+export default async function AddressPage({ params }: AddressPageProps) {
+  const { cluster, address } = await params;
+  const analysis = await loadAddressPermalink(cluster, address);
+  if (!analysis) notFound();
+  const explanation = await getCachedExplanation(cluster, 'address', address);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <PermalinkHeader title="Address" subtitle={address} cluster={cluster} />
+      <div className="max-w-5xl mx-auto p-6">
+        <AddressSummary analysis={analysis} />
+        <StreamedExplanation api={explanationApi('address', cluster, address)} initialExplanation={explanation} />
+      </div>
+    </div>
+  );
+}
+
+export const maxDuration = 60;
@@ -0,0 +1,42 @@
+import type { NextRequest } from 'next/server';
+import { serializeBigInts } from '@/app/api/chat/helpers';
+import { ChainManager } from '@/app/api/chat/helpers/chainManager';
+import { analyzeTransaction } from '@/app/api/chat/helpers/transactionAnalyzer';
+import { TransactionAnalysisSchema } from '@/app/api/chat/types';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// LLM-free analysis: returns the raw decoder output as versioned JSON
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ cluster: string; signature: string }> }
+) {
+  const { cluster, signature } = await params;
+
+  const network = await ChainManager.getInstance().getNetwork(cluster);
+  if (!network) {
+    return jsonResponse({ error: `Network ${cluster} not found` }, 404);
+  }
+
+  try {
+    const analysis = await analyzeTransaction(signature, cluster);
+    const result = TransactionAnalysisSchema.safeParse(serializeBigInts(analysis));
+    if (!result.success) {
+      console.error('Analysis failed schema validation:', result.error.issues);
+      return jsonResponse({ error: 'Analysis failed schema validation', issues: result.error.issues }, 500);
+    }
+
+    return jsonResponse(result.data);
+  } catch (error) {
+    const message = (error as Error).message;
+    return jsonResponse({ error: message }, message === 'Transaction not found' ? 404 : 500);
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 15;
@@ -0,0 +1,60 @@
+import type { NextRequest } from 'next/server';
+import { z } from 'zod';
+import { ChainManager } from '@/app/api/chat/helpers/chainManager';
+import { analyzeBatch, DEFAULT_BATCH_CONCURRENCY } from '@/app/api/chat/helpers/batchAnalyzer';
+import { BatchReportSchema, MAX_BATCH_CONCURRENCY, MAX_BATCH_SIZE } from '@/app/api/chat/types';
+
+const BatchRequestSchema = z.object({
+  signatures: z.array(z.string().min(1)).min(1).max(MAX_BATCH_SIZE),
+  concurrency: z.number().int().min(1).max(MAX_BATCH_CONCURRENCY).default(DEFAULT_BATCH_CONCURRENCY),
+});
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// LLM-free batch analysis: POST { "signatures": [...], "concurrency"?: n } for every analysis plus an aggregate report
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ cluster: string }> }
+) {
+  const { cluster } = await params;
+
+  const network = await ChainManager.getInstance().getNetwork(cluster);
+  if (!network) {
+    return jsonResponse({ error: `Network ${cluster} not found` }, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const parsed = BatchRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid batch request', issues: parsed.error.issues }, 400);
+  }
+
+  try {
+    const report = await analyzeBatch(parsed.data.signatures, cluster, parsed.data.concurrency);
+    const result = BatchReportSchema.safeParse(report);
+    if (!result.success) {
+      console.error('Batch report failed schema validation:', result.error.issues);
+      return jsonResponse({ error: 'Batch report failed schema validation', issues: result.error.issues }, 500);
+    }
+
+    return jsonResponse(result.data);
+  } catch (error) {
+    console.error('Batch analysis error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+}
+
+export const runtime = 'nodejs';
+// Large batches take a while even with concurrency
+export const maxDuration = 60;
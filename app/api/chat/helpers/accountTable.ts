@@ -0,0 +1,49 @@
+import { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { AccountEntry, AddressTableLookup } from '../types';
+
+interface LookupSource {
+  lookupTable: string;
+  lookupTableIndex: number;
+}
+
+// Loaded addresses are appended after the static keys: all writable ones (table by
+// table), then all readonly ones, mirroring `meta.loadedAddresses`
+function resolveLookupSources(lookups: AddressTableLookup[]): LookupSource[] {
+  const writable = lookups.flatMap(lookup =>
+    lookup.writableIndexes.map(index => ({ lookupTable: lookup.accountKey, lookupTableIndex: index }))
+  );
+  const readonly = lookups.flatMap(lookup =>
+    lookup.readonlyIndexes.map(index => ({ lookupTable: lookup.accountKey, lookupTableIndex: index }))
+  );
+  return [...writable, ...readonly];
+}
+
+export function getAddressTableLookups(tx: ParsedTransactionWithMeta): AddressTableLookup[] {
+  return (tx.transaction.message.addressTableLookups || []).map(lookup => ({
+    accountKey: lookup.accountKey.toBase58(),
+    writableIndexes: lookup.writableIndexes,
+    readonlyIndexes: lookup.readonlyIndexes
+  }));
+}
+
+// Every account the transaction touched, in message order, with where it was loaded from
+export function buildAccountTable(tx: ParsedTransactionWithMeta): AccountEntry[] {
+  const accountKeys = tx.transaction.message.accountKeys;
+  const lookupSources = resolveLookupSources(getAddressTableLookups(tx));
+  const staticKeyCount = accountKeys.length - lookupSources.length;
+
+  return accountKeys.map((key, index) => {
+    const lookupSource = index >= staticKeyCount ? lookupSources[index - staticKeyCount] : undefined;
+
+    return {
+      index,
+      address: key.pubkey.toBase58(),
+      signer: key.signer,
+      writable: key.writable,
+      source: lookupSource ? 'lookupTable' : 'static',
+      ...lookupSource,
+      preLamports: String(tx.meta?.preBalances[index] ?? 0),
+      postLamports: String(tx.meta?.postBalances[index] ?? 0)
+    };
+  });
+}
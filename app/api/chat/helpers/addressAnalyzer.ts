@@ -0,0 +1,183 @@
+import { AccountInfo, Connection, ParsedAccountData, PublicKey } from '@solana/web3.js';
+import { ChainManager } from './chainManager';
+import { TokenMetadataManager } from './tokensMetadataManager';
+import { DecoderRegistry } from './decoders';
+import { SYSTEM_PROGRAM_ID } from './decoders/system';
+import { TOKEN_PROGRAM_ID } from './decoders/token';
+import { STAKE_PROGRAM_ID } from './decoders/stake';
+import { BPF_UPGRADEABLE_LOADER_ID } from './decoders/bpfLoader';
+import { TOKEN_2022_PROGRAM_ID } from './token2022Extensions';
+import { formatUnits } from './index';
+import { LabelRegistry } from './labelRegistry';
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  AddressAnalysis,
+  AddressClassification,
+  RecentSignature,
+  TokenHolding
+} from '../types';
+
+const RECENT_SIGNATURES_LIMIT = 10;
+
+type AccountData = AccountInfo<Buffer | ParsedAccountData>;
+
+function getParsed(account: AccountData): { type?: string; info?: any } {
+  return 'parsed' in account.data ? account.data.parsed : {};
+}
+
+function classifyAccount(account: AccountData | null): AddressClassification {
+  if (!account) return 'Not Found';
+
+  const owner = account.owner.toBase58();
+  const parsed = getParsed(account);
+
+  if (owner === SYSTEM_PROGRAM_ID) return 'System Wallet';
+  if (owner === TOKEN_PROGRAM_ID || owner === TOKEN_2022_PROGRAM_ID) {
+    if (parsed.type === 'mint') return 'Mint';
+    if (parsed.type === 'account') return 'Token Account';
+  }
+  if (owner === BPF_UPGRADEABLE_LOADER_ID && parsed.type === 'programData') return 'Program Data';
+  if (account.executable) return 'Program';
+  if (owner === STAKE_PROGRAM_ID) return 'Stake Account';
+  return 'Program-Owned Account';
+}
+
+function getDetails(classification: AddressClassification, account: AccountData | null): Record<string, unknown> {
+  if (!account) return {};
+  const { info = {} } = getParsed(account);
+
+  switch (classification) {
+    case 'Token Account':
+      return {
+        mint: info.mint,
+        tokenOwner: info.owner,
+        amount: info.tokenAmount?.uiAmountString,
+        decimals: info.tokenAmount?.decimals,
+        state: info.state,
+        delegate: info.delegate ?? null,
+        delegatedAmount: info.delegatedAmount?.uiAmountString ?? null,
+        closeAuthority: info.closeAuthority ?? null,
+        isNative: info.isNative
+      };
+    case 'Mint':
+      return {
+        supply: info.supply,
+        decimals: info.decimals,
+        mintAuthority: info.mintAuthority ?? null,
+        freezeAuthority: info.freezeAuthority ?? null,
+        tokenProgram: account.owner.toBase58() === TOKEN_2022_PROGRAM_ID ? 'Token-2022' : 'Token'
+      };
+    case 'Program':
+      return { programData: info.programData ?? null };
+    case 'Program Data':
+      return { upgradeAuthority: info.authority ?? null, lastDeployedSlot: info.slot };
+    case 'Stake Account':
+      return {
+        stakeType: getParsed(account).type,
+        staker: info.meta?.authorized?.staker,
+        withdrawer: info.meta?.authorized?.withdrawer,
+        voter: info.stake?.delegation?.voter ?? null,
+        delegatedStake: info.stake?.delegation?.stake ?? null,
+        activationEpoch: info.stake?.delegation?.activationEpoch ?? null,
+        deactivationEpoch: info.stake?.delegation?.deactivationEpoch ?? null
+      };
+    default:
+      return {};
+  }
+}
+
+async function getTokenHoldings(connection: Connection, owner: PublicKey): Promise<TokenHolding[]> {
+  const metadataManager = TokenMetadataManager.getInstance();
+  const programs = [
+    { id: TOKEN_PROGRAM_ID, tokenProgram: 'Token' as const },
+    { id: TOKEN_2022_PROGRAM_ID, tokenProgram: 'Token-2022' as const }
+  ];
+
+  const results = await Promise.all(programs.map(async ({ id, tokenProgram }) => {
+    const { value } = await connection.getParsedTokenAccountsByOwner(owner, { programId: new PublicKey(id) });
+    return value
+      .map(({ pubkey, account }) => ({ pubkey, info: account.data.parsed.info, tokenProgram }))
+      .filter(({ info }) => info.tokenAmount.amount !== '0');
+  }));
+
+  return Promise.all(results.flat().map(async ({ pubkey, info, tokenProgram }) => {
+    const metadata = await metadataManager.getTokenMetadata(connection, info.mint);
+    return {
+      tokenAccount: pubkey.toBase58(),
+      mint: info.mint,
+      symbol: metadata.symbol,
+      amount: info.tokenAmount.uiAmountString,
+      decimals: info.tokenAmount.decimals,
+      tokenProgram
+    };
+  }));
+}
+
+async function getRecentSignatures(connection: Connection, address: PublicKey): Promise<RecentSignature[]> {
+  const signatures = await connection.getSignaturesForAddress(address, { limit: RECENT_SIGNATURES_LIMIT });
+  return signatures.map(sig => ({
+    signature: sig.signature,
+    slot: sig.slot,
+    blockTime: sig.blockTime ? new Date(sig.blockTime * 1000).toISOString() : null,
+    status: sig.err ? 'Failed' : 'Success',
+    memo: sig.memo
+  }));
+}
+
+// Address analysis: what kind of account this is, what it holds and how it was used recently
+export async function analyzeAddress(address: string, cluster: string): Promise<AddressAnalysis> {
+  console.log(`Analyzing address: ${address} on cluster: ${cluster}`);
+  const chainManager = ChainManager.getInstance();
+
+  try {
+    const [connection, network] = await Promise.all([
+      chainManager.getConnection(cluster),
+      chainManager.getNetwork(cluster)
+    ]);
+    if (!network) throw new Error(`Network ${cluster} not found`);
+
+    const publicKey = new PublicKey(address);
+    const { value: account } = await connection.getParsedAccountInfo(publicKey);
+    const classification = classifyAccount(account);
+    const owner = account?.owner.toBase58() ?? null;
+    const registry = DecoderRegistry.getInstance();
+
+    const [tokenHoldings, recentSignatures, label] = await Promise.all([
+      classification === 'System Wallet'
+        ? getTokenHoldings(connection, publicKey).catch(error => {
+            console.warn('Error fetching token holdings:', error);
+            return [];
+          })
+        : Promise.resolve([]),
+      getRecentSignatures(connection, publicKey).catch(error => {
+        console.warn('Error fetching recent signatures:', error);
+        return [];
+      }),
+      LabelRegistry.getInstance().getLabel(address)
+    ]);
+
+    const lamports = BigInt(account?.lamports ?? 0);
+    const dataSize = !account ? 0 : 'parsed' in account.data ? account.data.space : account.data.length;
+
+    return {
+      version: ANALYSIS_SCHEMA_VERSION,
+      address,
+      cluster,
+      label,
+      classification,
+      owner,
+      ownerName: owner && registry.has(owner) ? registry.getDecoder(owner).name : undefined,
+      lamports: lamports.toString(),
+      sol: formatUnits(lamports, 9),
+      dataSize,
+      executable: account?.executable ?? false,
+      isOnCurve: PublicKey.isOnCurve(publicKey.toBytes()),
+      details: getDetails(classification, account),
+      tokenHoldings,
+      recentSignatures
+    };
+  } catch (error) {
+    console.error('Address analysis error:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,359 @@
+import { ConfirmedSignatureInfo, Connection, ParsedTransactionWithMeta, PublicKey } from '@solana/web3.js';
+import { ChainManager } from './chainManager';
+import { classifyAndExtractInstructions } from './instructionProcessor';
+import { computeBalanceChanges } from './balanceChanges';
+import { LabelRegistry } from './labelRegistry';
+import { CacheManager, cacheKey } from './cache';
+import { DecoderRegistry } from './decoders';
+import { COMPUTE_BUDGET_PROGRAM_ID } from './decoders/computeBudget';
+import { MAGIC_EDEN_V2_PROGRAM_ID } from './decoders/magicEden';
+import { METADATA_PROGRAM_ID } from './decoders/metaplex';
+import { MARINADE_PROGRAM_ID, STAKE_PROGRAM_ID } from './decoders/stake';
+import { LIQUIDITY_TYPES } from './decoders/swaps';
+import { formatUnits, mapWithConcurrency } from './index';
+import {
+  AddressHistory,
+  Counterparty,
+  DailyActivity,
+  DEFAULT_HISTORY_LIMIT,
+  HistoryCategory,
+  HistoryEntry,
+  MAX_HISTORY_LIMIT,
+  MintFlow,
+  NATIVE_SOL_MINT,
+  ProgramActivity,
+  TRANSFERS
+} from '../types';
+
+const SIGNATURE_PAGE_SIZE = 100;
+// With a narrow date range most signatures can fall outside it; the caller pages on with `nextBefore`
+const MAX_SCANNED_SIGNATURES = 1000;
+const TRANSACTION_CHUNK_SIZE = 25;
+const CLASSIFY_CONCURRENCY = 4;
+const COUNTERPARTY_LIMIT = 20;
+const NFT_PROGRAMS = [METADATA_PROGRAM_ID, MAGIC_EDEN_V2_PROGRAM_ID];
+const STAKE_PROGRAMS = [STAKE_PROGRAM_ID, MARINADE_PROGRAM_ID];
+
+export interface AddressHistoryOptions {
+  // Signature to start after (exclusive), from a previous page's `nextBefore`
+  before?: string;
+  // Signature to stop at (exclusive)
+  until?: string;
+  // ISO dates or datetimes; a date-only `to` includes that whole day
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+interface ClassifiedTransaction {
+  entry: HistoryEntry;
+  sentTo: string[];
+  receivedFrom: string[];
+  rawChanges: { mint: string; decimals: number; raw: bigint }[];
+}
+
+function parseDate(value: string | undefined, name: string, endOfDay = false): number | null {
+  if (!value) return null;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new Error(`Invalid ${name} date: ${value}`);
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 86400000 - 1 : time;
+}
+
+// Walks getSignaturesForAddress pages (newest first) until `limit` signatures fall inside the date range
+async function collectSignatures(
+  connection: Connection,
+  address: PublicKey,
+  options: AddressHistoryOptions,
+  fromMs: number | null,
+  toMs: number | null,
+  limit: number
+) {
+  const selected: ConfirmedSignatureInfo[] = [];
+  let before = options.before;
+  let scanned = 0;
+  let exhausted = false;
+
+  while (!exhausted && selected.length < limit && scanned < MAX_SCANNED_SIGNATURES) {
+    const page = await connection.getSignaturesForAddress(address, {
+      before,
+      until: options.until,
+      limit: SIGNATURE_PAGE_SIZE
+    });
+    let consumed = 0;
+
+    for (const sig of page) {
+      const time = sig.blockTime ? sig.blockTime * 1000 : null;
+      if (fromMs !== null && time !== null && time < fromMs) {
+        exhausted = true;
+        break;
+      }
+
+      scanned++;
+      consumed++;
+      before = sig.signature;
+      if (toMs !== null && time !== null && time > toMs) continue;
+
+      selected.push(sig);
+      if (selected.length >= limit) break;
+    }
+
+    // A short page is the end of the history, but only once every signature on it has been taken
+    if (page.length < SIGNATURE_PAGE_SIZE && consumed === page.length) exhausted = true;
+  }
+
+  return { signatures: selected, scanned, nextBefore: exhausted ? null : before ?? null };
+}
+
+// Shares the analyzer's transaction cache; finalized transactions are kept for good
+async function fetchTransactions(
+  connection: Connection,
+  signatures: ConfirmedSignatureInfo[]
+): Promise<(ParsedTransactionWithMeta | null)[]> {
+  const cache = CacheManager.getInstance();
+  const keys = signatures.map(sig => cacheKey('transaction', connection, sig.signature));
+  const transactions = await Promise.all(keys.map(key => cache.get<ParsedTransactionWithMeta | null>(key)));
+
+  const missing = signatures.map((_, i) => i).filter(i => !transactions[i]);
+  for (let start = 0; start < missing.length; start += TRANSACTION_CHUNK_SIZE) {
+    const chunk = missing.slice(start, start + TRANSACTION_CHUNK_SIZE);
+    const fetched = await connection.getParsedTransactions(
+      chunk.map(i => signatures[i].signature),
+      { maxSupportedTransactionVersion: 0 }
+    );
+
+    await Promise.all(fetched.map(async (tx, j) => {
+      const i = chunk[j];
+      transactions[i] = tx;
+      if (tx && signatures[i].confirmationStatus === 'finalized') {
+        await cache.set(keys[i], tx, 'permanent');
+      }
+    }));
+  }
+
+  return transactions.map(tx => tx ?? null);
+}
+
+function categorize(
+  tx: ParsedTransactionWithMeta,
+  types: string[],
+  transfers: TRANSFERS[],
+  swaps: number,
+  programs: string[],
+  changed: boolean
+): HistoryCategory {
+  if (tx.meta?.err) return 'Failed';
+  if (types.some(type => (LIQUIDITY_TYPES as readonly string[]).includes(type))) return 'Liquidity';
+  if (swaps > 0 || types.some(type => /swap/i.test(type))) return 'Swap';
+  if (transfers.some(transfer => transfer.tokenType === 'NFT') || programs.some(id => NFT_PROGRAMS.includes(id))) return 'NFT';
+  if (programs.some(id => STAKE_PROGRAMS.includes(id))) return 'Stake';
+  if (transfers.length > 0 || changed) return 'Transfer';
+  return 'Other';
+}
+
+async function classify(
+  connection: Connection,
+  address: string,
+  sig: ConfirmedSignatureInfo,
+  tx: ParsedTransactionWithMeta
+): Promise<ClassifiedTransaction> {
+  const extracted = await classifyAndExtractInstructions(tx, connection);
+  const balanceChanges = computeBalanceChanges(tx);
+
+  // Transfers name token accounts; counterparties are their owners
+  const owners = new Map(balanceChanges.accounts.map(change => [change.account, change.owner]));
+  const ownerOf = (account: string) => owners.get(account) || account;
+
+  const symbols = new Map<string, string>([[NATIVE_SOL_MINT, 'SOL']]);
+  extracted.transfers.forEach(transfer => {
+    if (transfer.token.address && transfer.token.symbol) symbols.set(transfer.token.address, transfer.token.symbol);
+  });
+
+  const sentTo = new Set<string>();
+  const receivedFrom = new Set<string>();
+  for (const transfer of extracted.transfers) {
+    const from = ownerOf(transfer.from);
+    const to = ownerOf(transfer.to);
+    if (from === address && to !== address) sentTo.add(to);
+    if (to === address && from !== address) receivedFrom.add(from);
+  }
+
+  const own = balanceChanges.owners.filter(change => change.owner === address);
+  // Without a decoded transfer, the only other owner moving the opposite way is the counterparty
+  if (sentTo.size === 0 && receivedFrom.size === 0) {
+    for (const change of own) {
+      const outgoing = change.rawChange.startsWith('-');
+      const others = balanceChanges.owners.filter(other =>
+        other.mint === change.mint && other.owner !== address && other.rawChange.startsWith('-') !== outgoing
+      );
+      if (others.length === 1) (outgoing ? sentTo : receivedFrom).add(others[0].owner);
+    }
+  }
+
+  const programs = extracted.programInteractions.filter(id => id !== COMPUTE_BUDGET_PROGRAM_ID);
+  const entry: HistoryEntry = {
+    signature: sig.signature,
+    slot: sig.slot,
+    blockTime: sig.blockTime ? new Date(sig.blockTime * 1000).toISOString() : null,
+    status: tx.meta?.err ? 'Failed' : 'Success',
+    category: categorize(tx, extracted.types, extracted.transfers, extracted.swaps.length, programs, own.length > 0),
+    actionTypes: Array.from(new Set(extracted.types)),
+    programs,
+    counterparties: Array.from(new Set([...Array.from(sentTo), ...Array.from(receivedFrom)])),
+    changes: own.map(change => ({ mint: change.mint, symbol: symbols.get(change.mint), change: change.change })),
+    memo: sig.memo
+  };
+
+  return {
+    entry,
+    sentTo: Array.from(sentTo),
+    receivedFrom: Array.from(receivedFrom),
+    rawChanges: own.map(change => ({ mint: change.mint, decimals: change.decimals, raw: BigInt(change.rawChange) }))
+  };
+}
+
+function aggregateVolume(classified: ClassifiedTransaction[]): MintFlow[] {
+  const flows = new Map<string, { decimals: number; inflow: bigint; outflow: bigint; transactions: number; symbol?: string }>();
+
+  for (const { entry, rawChanges } of classified) {
+    for (const { mint, decimals, raw } of rawChanges) {
+      const flow = flows.get(mint) || { decimals, inflow: BigInt(0), outflow: BigInt(0), transactions: 0 };
+      if (raw > BigInt(0)) flow.inflow += raw;
+      else flow.outflow -= raw;
+      flow.transactions++;
+      flow.symbol = flow.symbol || entry.changes.find(change => change.mint === mint)?.symbol;
+      flows.set(mint, flow);
+    }
+  }
+
+  return Array.from(flows.entries())
+    .map(([mint, flow]) => ({
+      mint,
+      symbol: flow.symbol,
+      decimals: flow.decimals,
+      rawInflow: flow.inflow.toString(),
+      rawOutflow: flow.outflow.toString(),
+      inflow: formatUnits(flow.inflow, flow.decimals),
+      outflow: formatUnits(flow.outflow, flow.decimals),
+      transactions: flow.transactions
+    }))
+    .sort((a, b) => b.transactions - a.transactions);
+}
+
+async function aggregateCounterparties(classified: ClassifiedTransaction[]): Promise<Counterparty[]> {
+  const counterparties = new Map<string, Counterparty>();
+  const touch = (address: string) => {
+    const counterparty = counterparties.get(address) || { address, transactions: 0, sent: 0, received: 0 };
+    counterparties.set(address, counterparty);
+    return counterparty;
+  };
+
+  for (const { entry, sentTo, receivedFrom } of classified) {
+    entry.counterparties.forEach(address => touch(address).transactions++);
+    sentTo.forEach(address => touch(address).sent++);
+    receivedFrom.forEach(address => touch(address).received++);
+  }
+
+  const top = Array.from(counterparties.values())
+    .sort((a, b) => b.transactions - a.transactions)
+    .slice(0, COUNTERPARTY_LIMIT);
+  const labels = await LabelRegistry.getInstance().getLabels(top.map(counterparty => counterparty.address));
+  return top.map(counterparty => {
+    const label = labels.get(counterparty.address);
+    return label ? { ...counterparty, label } : counterparty;
+  });
+}
+
+function aggregatePrograms(entries: HistoryEntry[]): ProgramActivity[] {
+  const registry = DecoderRegistry.getInstance();
+  const usage = new Map<string, ProgramActivity>();
+
+  for (const entry of entries) {
+    for (const programId of entry.programs) {
+      const activity = usage.get(programId) || {
+        programId,
+        programName: registry.has(programId) ? registry.getDecoder(programId).name : undefined,
+        transactions: 0
+      };
+      activity.transactions++;
+      usage.set(programId, activity);
+    }
+  }
+
+  return Array.from(usage.values()).sort((a, b) => b.transactions - a.transactions);
+}
+
+function aggregateDaily(entries: HistoryEntry[]): DailyActivity[] {
+  const days = new Map<string, DailyActivity>();
+
+  for (const entry of entries) {
+    if (!entry.blockTime) continue;
+    const date = entry.blockTime.slice(0, 10);
+    const day = days.get(date) || { date, transactions: 0, failed: 0, categories: {} };
+    day.transactions++;
+    if (entry.status === 'Failed') day.failed++;
+    day.categories[entry.category] = (day.categories[entry.category] ?? 0) + 1;
+    days.set(date, day);
+  }
+
+  return Array.from(days.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Activity timeline of an address: one page of its signatures (newest first, optionally within a date range),
+// each transaction classified by the instruction processor, plus counterparties, volume, programs and daily activity
+export async function getAddressHistory(
+  address: string,
+  cluster: string,
+  options: AddressHistoryOptions = {}
+): Promise<AddressHistory> {
+  console.log(`Fetching history of ${address} on cluster: ${cluster}`);
+  const chainManager = ChainManager.getInstance();
+
+  try {
+    const [connection, network] = await Promise.all([
+      chainManager.getConnection(cluster),
+      chainManager.getNetwork(cluster)
+    ]);
+    if (!network) throw new Error(`Network ${cluster} not found`);
+
+    const publicKey = new PublicKey(address);
+    const fromMs = parseDate(options.from, 'from');
+    const toMs = parseDate(options.to, 'to', true);
+    if (fromMs !== null && toMs !== null && fromMs > toMs) throw new Error('`from` must not be after `to`');
+    const limit = Math.min(Math.max(Math.floor(options.limit ?? DEFAULT_HISTORY_LIMIT) || 1, 1), MAX_HISTORY_LIMIT);
+
+    const { signatures, scanned, nextBefore } = await collectSignatures(connection, publicKey, options, fromMs, toMs, limit);
+    const transactions = await fetchTransactions(connection, signatures);
+
+    const classified = (await mapWithConcurrency(
+      signatures.map((sig, i) => ({ sig, tx: transactions[i] })),
+      CLASSIFY_CONCURRENCY,
+      async ({ sig, tx }) => {
+        if (!tx) return null;
+        try {
+          return await classify(connection, address, sig, tx);
+        } catch (error) {
+          console.warn(`Error classifying ${sig.signature}:`, error);
+          return null;
+        }
+      }
+    )).filter((item): item is ClassifiedTransaction => item !== null);
+
+    const entries = classified.map(item => item.entry);
+    return {
+      address,
+      cluster,
+      from: fromMs === null ? null : new Date(fromMs).toISOString(),
+      to: toMs === null ? null : new Date(toMs).toISOString(),
+      entries,
+      counterparties: await aggregateCounterparties(classified),
+      volume: aggregateVolume(classified),
+      programs: aggregatePrograms(entries),
+      daily: aggregateDaily(entries),
+      nextBefore,
+      scanned
+    };
+  } catch (error) {
+    console.error('Address history error:', error);
+    throw error;
+  }
+}
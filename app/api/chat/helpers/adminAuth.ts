@@ -0,0 +1,15 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+// Admin endpoints are disabled unless ADMIN_API_TOKEN is set; callers send `Authorization: Bearer <token>`
+export function isAdminRequest(request: Request): boolean {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) return false;
+
+  const header = request.headers.get('authorization') || '';
+  const provided = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  if (!provided) return false;
+
+  // Hashing first keeps the comparison constant-time whatever the lengths
+  const digest = (value: string) => new Uint8Array(createHash('sha256').update(value).digest());
+  return timingSafeEqual(digest(provided), digest(token));
+}
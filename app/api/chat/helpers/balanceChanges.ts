@@ -0,0 +1,106 @@
+import { ParsedTransactionWithMeta, TokenBalance } from '@solana/web3.js';
+import { formatUnits } from './index';
+import {
+  AccountBalanceChange,
+  BalanceChanges,
+  NATIVE_SOL_MINT,
+  OwnerBalanceChange
+} from '../types';
+
+const SOL_DECIMALS = 9;
+
+function tokenBalanceKey(balance: TokenBalance): string {
+  return `${balance.accountIndex}:${balance.mint}`;
+}
+
+// Net SOL and token flows per account and per owner, reconstructed from pre/post balances.
+// Unlike instruction parsing this also captures value moved through CPIs.
+export function computeBalanceChanges(tx: ParsedTransactionWithMeta): BalanceChanges {
+  const accountKeys = tx.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+  const feePayer = accountKeys[0];
+  const fee = BigInt(tx.meta?.fee ?? 0);
+  const accounts: AccountBalanceChange[] = [];
+
+  // Native SOL, with the fee added back to the payer so only transfers remain
+  const preBalances = tx.meta?.preBalances ?? [];
+  const postBalances = tx.meta?.postBalances ?? [];
+  accountKeys.forEach((account, i) => {
+    const pre = BigInt(preBalances[i] ?? 0);
+    const post = BigInt(postBalances[i] ?? 0);
+    const rawChange = post - pre + (i === 0 ? fee : BigInt(0));
+    if (rawChange === BigInt(0)) return;
+
+    accounts.push({
+      account,
+      accountIndex: i,
+      owner: account,
+      mint: NATIVE_SOL_MINT,
+      decimals: SOL_DECIMALS,
+      preAmount: pre.toString(),
+      postAmount: post.toString(),
+      rawChange: rawChange.toString(),
+      change: formatUnits(rawChange, SOL_DECIMALS)
+    });
+  });
+
+  // Token accounts created or closed in this transaction only appear on one side
+  const preTokenBalances = new Map(
+    (tx.meta?.preTokenBalances ?? []).map(balance => [tokenBalanceKey(balance), balance])
+  );
+  const postTokenBalances = new Map(
+    (tx.meta?.postTokenBalances ?? []).map(balance => [tokenBalanceKey(balance), balance])
+  );
+  const tokenKeys = Array.from(new Set([...Array.from(preTokenBalances.keys()), ...Array.from(postTokenBalances.keys())]));
+
+  for (const key of tokenKeys) {
+    const pre = preTokenBalances.get(key);
+    const post = postTokenBalances.get(key);
+    const balance = (post || pre) as TokenBalance;
+    const preAmount = BigInt(pre?.uiTokenAmount.amount ?? 0);
+    const postAmount = BigInt(post?.uiTokenAmount.amount ?? 0);
+    const rawChange = postAmount - preAmount;
+    if (rawChange === BigInt(0)) continue;
+
+    const decimals = balance.uiTokenAmount.decimals;
+    accounts.push({
+      account: accountKeys[balance.accountIndex],
+      accountIndex: balance.accountIndex,
+      owner: post?.owner || pre?.owner || 'unknown',
+      mint: balance.mint,
+      decimals,
+      preAmount: preAmount.toString(),
+      postAmount: postAmount.toString(),
+      rawChange: rawChange.toString(),
+      change: formatUnits(rawChange, decimals)
+    });
+  }
+
+  // Roll account changes up to their owning wallet
+  const ownerTotals = new Map<string, { owner: string; mint: string; decimals: number; raw: bigint }>();
+  for (const change of accounts) {
+    const key = `${change.owner}:${change.mint}`;
+    const total = ownerTotals.get(key) || { owner: change.owner, mint: change.mint, decimals: change.decimals, raw: BigInt(0) };
+    total.raw += BigInt(change.rawChange);
+    ownerTotals.set(key, total);
+  }
+
+  const owners: OwnerBalanceChange[] = Array.from(ownerTotals.values())
+    .filter(total => total.raw !== BigInt(0))
+    .map(total => ({
+      owner: total.owner,
+      mint: total.mint,
+      decimals: total.decimals,
+      rawChange: total.raw.toString(),
+      change: formatUnits(total.raw, total.decimals)
+    }));
+
+  return {
+    fee: {
+      payer: feePayer,
+      lamports: fee.toString(),
+      sol: formatUnits(fee, SOL_DECIMALS)
+    },
+    accounts,
+    owners
+  };
+}
@@ -0,0 +1,189 @@
+import { analyzeTransaction } from './transactionAnalyzer';
+import { formatUnits, mapWithConcurrency, serializeBigInts } from './index';
+import {
+  BatchAggregate,
+  BatchProgramUsage,
+  BatchReport,
+  BatchRiskEntry,
+  BatchRow,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_SIZE,
+  MintFlow,
+  NATIVE_SOL_MINT,
+  RiskSeverity,
+  TransactionAnalysis
+} from '../types';
+
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+const HIGHEST_RISK_LIMIT = 5;
+const RISK_RANK: Record<RiskSeverity, number> = { Low: 0, Medium: 1, High: 2 };
+
+interface BatchResult {
+  signature: string;
+  analysis?: TransactionAnalysis;
+  error?: string;
+}
+
+function toRow({ signature, analysis, error }: BatchResult): BatchRow {
+  if (!analysis) {
+    return {
+      signature,
+      analyzed: false,
+      error,
+      slot: null,
+      blockTime: null,
+      status: null,
+      actionTypes: [],
+      feeLamports: null,
+      computeUnits: null,
+      riskLevel: null,
+      findings: 0,
+      transfers: 0,
+      programs: 0
+    };
+  }
+
+  return {
+    signature,
+    analyzed: true,
+    slot: analysis.network.slot,
+    blockTime: analysis.network.blockTime === 'unknown' ? null : analysis.network.blockTime,
+    status: analysis.transaction.status,
+    actionTypes: analysis.actionTypes,
+    feeLamports: analysis.costAnalysis.totalFeeLamports,
+    computeUnits: analysis.costAnalysis.computeUnitsConsumed,
+    riskLevel: analysis.summary.riskLevel,
+    findings: analysis.findings.length,
+    transfers: analysis.transfers.length,
+    programs: analysis.interactions.length
+  };
+}
+
+// Owner balance changes summed per mint: what came in and what went out across the whole batch
+function aggregateMintFlows(analyses: TransactionAnalysis[]): MintFlow[] {
+  const symbols = new Map<string, string>([[NATIVE_SOL_MINT, 'SOL']]);
+  const flows = new Map<string, { decimals: number; inflow: bigint; outflow: bigint; transactions: number }>();
+
+  for (const analysis of analyses) {
+    analysis.transfers.forEach(transfer => {
+      const { address, symbol } = transfer.token;
+      if (address && symbol) symbols.set(address, symbol);
+    });
+
+    const seen = new Set<string>();
+    for (const change of analysis.balanceChanges.owners) {
+      const flow = flows.get(change.mint) || { decimals: change.decimals, inflow: BigInt(0), outflow: BigInt(0), transactions: 0 };
+      const raw = BigInt(change.rawChange);
+      if (raw > BigInt(0)) flow.inflow += raw;
+      else flow.outflow -= raw;
+      if (!seen.has(change.mint)) {
+        seen.add(change.mint);
+        flow.transactions++;
+      }
+      flows.set(change.mint, flow);
+    }
+  }
+
+  return Array.from(flows.entries())
+    .map(([mint, flow]) => ({
+      mint,
+      symbol: symbols.get(mint),
+      decimals: flow.decimals,
+      rawInflow: flow.inflow.toString(),
+      rawOutflow: flow.outflow.toString(),
+      inflow: formatUnits(flow.inflow, flow.decimals),
+      outflow: formatUnits(flow.outflow, flow.decimals),
+      transactions: flow.transactions
+    }))
+    .sort((a, b) => b.transactions - a.transactions);
+}
+
+function aggregatePrograms(analyses: TransactionAnalysis[]): BatchProgramUsage[] {
+  const usage = new Map<string, BatchProgramUsage>();
+
+  for (const analysis of analyses) {
+    const names = new Map(analysis.programs.map(program => [program.programId, program.programName]));
+    for (const programId of Array.from(new Set(analysis.interactions))) {
+      const entry = usage.get(programId) || { programId, programName: names.get(programId), transactions: 0 };
+      entry.programName = entry.programName || names.get(programId);
+      entry.transactions++;
+      usage.set(programId, entry);
+    }
+  }
+
+  return Array.from(usage.values()).sort((a, b) => b.transactions - a.transactions);
+}
+
+function highestRisk(analyses: TransactionAnalysis[]): BatchRiskEntry[] {
+  return analyses
+    .filter(analysis => analysis.findings.length > 0)
+    .sort((a, b) =>
+      (RISK_RANK[b.summary.riskLevel] - RISK_RANK[a.summary.riskLevel]) || (b.findings.length - a.findings.length)
+    )
+    .slice(0, HIGHEST_RISK_LIMIT)
+    .map(analysis => ({
+      signature: analysis.transaction.signature,
+      riskLevel: analysis.summary.riskLevel,
+      findings: analysis.findings.map(finding => finding.title)
+    }));
+}
+
+function buildBatchAggregate(results: BatchResult[]): BatchAggregate {
+  const analyses = results.flatMap(result => result.analysis ? [result.analysis] : []);
+  const failed = analyses.filter(analysis => analysis.transaction.status === 'Failed').length;
+
+  const totalFees = analyses.reduce((sum, analysis) => sum + BigInt(analysis.costAnalysis.totalFeeLamports), BigInt(0));
+  const priorityFees = analyses.reduce((sum, analysis) => sum + BigInt(analysis.costAnalysis.priorityFeeLamports), BigInt(0));
+
+  const riskLevels = { Low: 0, Medium: 0, High: 0 };
+  analyses.forEach(analysis => riskLevels[analysis.summary.riskLevel]++);
+
+  return {
+    requested: results.length,
+    analyzed: analyses.length,
+    errors: results.length - analyses.length,
+    failed,
+    failurePercent: analyses.length ? Math.round((failed / analyses.length) * 1000) / 10 : 0,
+    fees: {
+      totalLamports: totalFees.toString(),
+      totalSol: formatUnits(totalFees, 9),
+      priorityLamports: priorityFees.toString(),
+      averageLamports: analyses.length ? (totalFees / BigInt(analyses.length)).toString() : '0'
+    },
+    computeUnits: analyses.reduce((sum, analysis) => sum + (analysis.costAnalysis.computeUnitsConsumed ?? 0), 0),
+    riskLevels,
+    mints: aggregateMintFlows(analyses),
+    programs: aggregatePrograms(analyses),
+    highestRisk: highestRisk(analyses)
+  };
+}
+
+// Analyzes up to MAX_BATCH_SIZE signatures, `concurrency` at a time. A signature that cannot be analyzed
+// becomes an error row instead of failing the batch; duplicates are analyzed once.
+export async function analyzeBatch(
+  signatures: string[],
+  cluster: string,
+  concurrency = DEFAULT_BATCH_CONCURRENCY
+): Promise<BatchReport> {
+  const unique = Array.from(new Set(signatures.map(signature => signature.trim()).filter(Boolean)));
+  if (unique.length === 0) throw new Error('No signatures to analyze');
+  if (unique.length > MAX_BATCH_SIZE) throw new Error(`At most ${MAX_BATCH_SIZE} signatures can be analyzed at once`);
+
+  const limit = Math.min(Math.max(Math.floor(concurrency) || 1, 1), MAX_BATCH_CONCURRENCY);
+  console.log(`Analyzing ${unique.length} transactions on ${cluster}, ${limit} at a time`);
+
+  const results = await mapWithConcurrency(unique, limit, async (signature): Promise<BatchResult> => {
+    try {
+      return { signature, analysis: serializeBigInts(await analyzeTransaction(signature, cluster)) };
+    } catch (error) {
+      return { signature, error: (error as Error).message };
+    }
+  });
+
+  return {
+    cluster,
+    aggregate: buildBatchAggregate(results),
+    rows: results.map(toRow),
+    analyses: results.flatMap(result => result.analysis ? [result.analysis] : [])
+  };
+}
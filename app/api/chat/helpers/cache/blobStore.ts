@@ -0,0 +1,51 @@
+import { createHash } from 'crypto';
+import { BlobNotFoundError, del, head, list, put } from '@vercel/blob';
+import { CacheStore } from './types';
+
+// Vercel Blob store (needs BLOB_READ_WRITE_TOKEN). Blobs are public but their paths are key hashes,
+// and everything stored is public chain data.
+export class BlobCacheStore implements CacheStore {
+  constructor(private readonly prefix: string) {}
+
+  private pathname(key: string): string {
+    return `${this.prefix}/${createHash('sha256').update(key).digest('hex')}.json`;
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      const blob = await head(this.pathname(key));
+      const response = await fetch(blob.url, { cache: 'no-store' });
+      if (!response.ok) return null;
+      return await response.text();
+    } catch (error) {
+      if (error instanceof BlobNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await put(this.pathname(key), value, {
+      access: 'public',
+      addRandomSuffix: false,
+      contentType: 'application/json'
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      const blob = await head(this.pathname(key));
+      await del(blob.url);
+    } catch (error) {
+      if (!(error instanceof BlobNotFoundError)) throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    let cursor: string | undefined;
+    do {
+      const page = await list({ prefix: `${this.prefix}/`, cursor });
+      if (page.blobs.length) await del(page.blobs.map(blob => blob.url));
+      cursor = page.hasMore ? page.cursor : undefined;
+    } while (cursor);
+  }
+}
@@ -0,0 +1,39 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheStore } from './types';
+
+// One JSON file per key; file names are hashes because keys contain RPC URLs (and their API keys)
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly dir: string) {}
+
+  private filePath(key: string): string {
+    return path.join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.filePath(key), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  // Written to a temporary file and renamed, so concurrent readers never see half an entry
+  async set(key: string, value: string): Promise<void> {
+    const target = this.filePath(key);
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(temporary, value);
+    await fs.rename(temporary, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.filePath(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.dir, { recursive: true, force: true });
+  }
+}
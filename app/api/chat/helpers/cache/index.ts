@@ -0,0 +1,146 @@
+import path from 'path';
+import { Connection } from '@solana/web3.js';
+import { BlobCacheStore } from './blobStore';
+import { FileCacheStore } from './fileStore';
+import { MemoryCacheStore } from './memoryStore';
+import { deserializeEntry, serializeEntry } from './serialization';
+import { CACHE_BACKENDS, CacheBackend, CacheStore, CacheTtl } from './types';
+
+export * from './types';
+
+const MEMORY_MAX_ENTRIES = Number(process.env.CACHE_MAX_ENTRIES) || 1000;
+// How long mutable account data (program state, on-chain IDLs, fee payer history) is reused
+export const DEFAULT_CACHE_TTL_MS = (Number(process.env.CACHE_TTL_SECONDS) || 300) * 1000;
+// Bumped when the shape of cached values changes, so old entries are simply never read again
+const KEY_VERSION = 'v1';
+
+function createStore(backend: CacheBackend): CacheStore | null {
+  switch (backend) {
+    case 'fs':
+      return new FileCacheStore(process.env.CACHE_DIR || path.join(process.cwd(), '.cache'));
+    case 'blob':
+      return new BlobCacheStore(process.env.CACHE_BLOB_PREFIX || 'aixplorer-cache');
+    default:
+      return null;
+  }
+}
+
+// Keys are scoped per RPC endpoint, like on-chain IDL lookups: the same address can differ between clusters
+export function cacheKey(kind: string, connection: Connection, id: string): string {
+  return `${KEY_VERSION}:${kind}:${connection.rpcEndpoint}:${id}`;
+}
+
+// Two tiers: an in-process LRU in front of the CACHE_BACKEND store (memory, fs or blob).
+// Store failures only cost a cache miss; they never fail the request.
+export class CacheManager {
+  private static instance: CacheManager;
+  private memory = new MemoryCacheStore(MEMORY_MAX_ENTRIES);
+  private persistent: CacheStore | null;
+  private pending: Map<string, Promise<unknown>> = new Map();
+
+  private constructor() {
+    const backend = (process.env.CACHE_BACKEND || 'memory') as CacheBackend;
+    if (!CACHE_BACKENDS.includes(backend)) {
+      console.warn(`Unknown CACHE_BACKEND ${backend}, using memory`);
+    }
+    this.persistent = createStore(backend);
+  }
+
+  static getInstance(): CacheManager {
+    if (!CacheManager.instance) {
+      CacheManager.instance = new CacheManager();
+    }
+    return CacheManager.instance;
+  }
+
+  private async read(store: CacheStore, key: string): Promise<{ raw: string; value: unknown } | undefined> {
+    try {
+      const raw = await store.get(key);
+      if (raw === null) return undefined;
+
+      const entry = deserializeEntry(raw);
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        await store.delete(key);
+        return undefined;
+      }
+      return { raw, value: entry.value };
+    } catch (error) {
+      console.warn(`Cache read failed for ${key}:`, (error as Error).message);
+      return undefined;
+    }
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const cached = await this.read(this.memory, key);
+    if (cached) return cached.value as T;
+
+    if (!this.persistent) return undefined;
+    const stored = await this.read(this.persistent, key);
+    if (stored) {
+      await this.memory.set(key, stored.raw);
+      return stored.value as T;
+    }
+    return undefined;
+  }
+
+  async set<T>(key: string, value: T, ttl: CacheTtl): Promise<void> {
+    if (ttl === 'skip' || value === undefined) return;
+
+    const raw = serializeEntry({ expiresAt: ttl === 'permanent' ? null : Date.now() + ttl, value });
+    await this.memory.set(key, raw);
+    if (!this.persistent) return;
+
+    try {
+      await this.persistent.set(key, raw);
+    } catch (error) {
+      console.warn(`Cache write failed for ${key}:`, (error as Error).message);
+    }
+  }
+
+  // Concurrent callers for the same key share one load; `ttl` can depend on the loaded value,
+  // e.g. permanent once a transaction is finalized
+  async getOrLoad<T>(
+    key: string,
+    load: () => Promise<T>,
+    ttl: CacheTtl | ((value: T) => CacheTtl | Promise<CacheTtl>)
+  ): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== undefined) return cached;
+
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight as Promise<T>;
+
+    const loading = (async () => {
+      const value = await load();
+      await this.set(key, value, typeof ttl === 'function' ? await ttl(value) : ttl);
+      return value;
+    })();
+
+    this.pending.set(key, loading);
+    try {
+      return await loading;
+    } finally {
+      this.pending.delete(key);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.memory.delete(key);
+    await this.persistent?.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.memory.clear();
+    await this.persistent?.clear();
+  }
+}
+
+// Confirmed data can still be rolled back; only slots at or below the finalized root are safe to keep forever
+export async function isFinalizedSlot(connection: Connection, slot: number): Promise<boolean> {
+  try {
+    return slot <= await connection.getSlot('finalized');
+  } catch (error) {
+    console.warn('Error fetching finalized slot:', error);
+    return false;
+  }
+}
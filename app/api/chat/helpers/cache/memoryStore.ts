@@ -0,0 +1,36 @@
+import { CacheStore } from './types';
+
+// LRU on top of Map insertion order: reads move a key to the end, writes evict from the front
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, string>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  async get(key: string): Promise<string | null> {
+    const value = this.entries.get(key);
+    if (value === undefined) return null;
+
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,46 @@
+import { PublicKey } from '@solana/web3.js';
+import { CacheEntry } from './types';
+
+// web3.js results hold PublicKeys, Buffers and bigints, which plain JSON would flatten into strings,
+// byte arrays or errors; they are tagged on the way in and rebuilt on the way out
+type Tagged =
+  | { $type: 'PublicKey'; value: string }
+  | { $type: 'Buffer'; value: string }
+  | { $type: 'bigint'; value: string }
+  | { $type: 'Date'; value: string };
+
+// `this[key]` is the value before toJSON ran (PublicKey, Buffer and Date all define one)
+function replacer(this: Record<string, unknown>, key: string, value: unknown): unknown {
+  const original = this[key];
+  if (original instanceof PublicKey) return { $type: 'PublicKey', value: original.toBase58() };
+  if (original instanceof Uint8Array) return { $type: 'Buffer', value: Buffer.from(original).toString('base64') };
+  if (original instanceof Date) return { $type: 'Date', value: original.toISOString() };
+  if (typeof original === 'bigint') return { $type: 'bigint', value: original.toString() };
+  return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (!value || typeof value !== 'object' || !('$type' in value)) return value;
+
+  const tagged = value as Tagged;
+  switch (tagged.$type) {
+    case 'PublicKey':
+      return new PublicKey(tagged.value);
+    case 'Buffer':
+      return Buffer.from(tagged.value, 'base64');
+    case 'bigint':
+      return BigInt(tagged.value);
+    case 'Date':
+      return new Date(tagged.value);
+    default:
+      return value;
+  }
+}
+
+export function serializeEntry(entry: CacheEntry): string {
+  return JSON.stringify(entry, replacer);
+}
+
+export function deserializeEntry(raw: string): CacheEntry {
+  return JSON.parse(raw, reviver) as CacheEntry;
+}
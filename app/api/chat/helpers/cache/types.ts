@@ -0,0 +1,18 @@
+export const CACHE_BACKENDS = ['memory', 'fs', 'blob'] as const;
+export type CacheBackend = typeof CACHE_BACKENDS[number];
+
+// Plain string storage; expiry is tracked by CacheManager inside the stored entry
+export interface CacheStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// 'permanent' for finalized ledger data, milliseconds for mutable account data, 'skip' to not cache at all
+export type CacheTtl = number | 'permanent' | 'skip';
+
+export interface CacheEntry {
+  expiresAt: number | null;
+  value: unknown;
+}
@@ -1,64 +1,64 @@
 import { Connection, clusterApiUrl } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { RpcCallRecord, RpcEndpointHealth, RpcPool } from './rpcPool';
 
-export interface Network {
-  name: string;
+export const NetworkSchema = z.object({
+  name: z.string().min(1),
+  // Used in URLs and tool calls, e.g. `mainnet-beta` or `localnet`
+  cluster: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'lowercase letters, digits and dashes only'),
+  nativeCurrency: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    decimals: z.number(),
+  }),
+  rpc: z.array(z.string().url()).default([]),
+});
+
+const NetworksFileSchema = z.object({
+  networks: z.array(NetworkSchema),
+});
+
+export type Network = z.infer<typeof NetworkSchema>;
+
+export interface RpcHealthReport {
   cluster: string;
-  nativeCurrency: {
-    name: string;
-    symbol: string;
-    decimals: number;
-  };
-  rpc: string[];
+  endpoints: RpcEndpointHealth[];
+  recentCalls: RpcCallRecord[];
+}
+
+const SOL = { name: 'Solana', symbol: 'SOL', decimals: 9 };
+
+// Public endpoints, used when no networks file is present
+const DEFAULT_NETWORKS: Network[] = [
+  { name: 'Solana Mainnet', cluster: 'mainnet-beta', nativeCurrency: SOL, rpc: [clusterApiUrl('mainnet-beta')] },
+  { name: 'Solana Devnet', cluster: 'devnet', nativeCurrency: SOL, rpc: [clusterApiUrl('devnet')] },
+  { name: 'Solana Testnet', cluster: 'testnet', nativeCurrency: SOL, rpc: [clusterApiUrl('testnet')] },
+  { name: 'Solana Localnet', cluster: 'localnet', nativeCurrency: SOL, rpc: ['http://127.0.0.1:8899'] }
+];
+
+// SOLANA_RPC_MAINNET_BETA=https://a,https://b: private endpoints (and their keys) stay out of the config file
+function getEnvEndpoints(cluster: string): string[] {
+  const variable = `SOLANA_RPC_${cluster.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+  return (process.env[variable] || '').split(',').map(url => url.trim()).filter(Boolean);
+}
+
+interface ConfiguredNetworks {
+  networks: Network[];
+  // Why an existing networks file could not be used; it is then never overwritten
+  error: string | null;
 }
 
-// Chain data management
+// Chain data management: networks from NETWORKS_CONFIG_PATH (defaults to ./config/networks.json) and
+// one failover RPC pool per cluster
 export class ChainManager {
   private static instance: ChainManager;
-  private networks: Network[] = [
-    {
-      name: 'Solana Mainnet',
-      cluster: 'mainnet-beta',
-      nativeCurrency: {
-        name: 'Solana',
-        symbol: 'SOL',
-        decimals: 9
-      },
-      rpc: [
-        'https://fabled-sparkling-general.solana-mainnet.quiknode.pro/040478c57d2932ae55184130eaff1fbe14c33e49',
-        'https://api.mainnet-beta.solana.com',
-        'https://solana-mainnet.rpc.extrnode.com',
-        'https://rpc.ankr.com/solana'
-      ]
-    },
-    {
-      name: 'Solana Devnet',
-      cluster: 'devnet',
-      nativeCurrency: {
-        name: 'Solana',
-        symbol: 'SOL',
-        decimals: 9
-      },
-      rpc: [
-        'https://api.devnet.solana.com',
-        clusterApiUrl('devnet')
-      ]
-    },
-    {
-      name: 'Solana Testnet',
-      cluster: 'testnet',
-      nativeCurrency: {
-        name: 'Solana',
-        symbol: 'SOL',
-        decimals: 9
-      },
-      rpc: [
-        'https://api.testnet.solana.com',
-        clusterApiUrl('testnet')
-      ]
-    }
-  ];
-
+  // Networks as configured in the file (or the defaults), without environment endpoints
+  private configured: Promise<ConfiguredNetworks> | null = null;
+  private pools: Map<string, RpcPool> = new Map();
   private connectionCache: Map<string, Connection> = new Map();
+  private readonly configPath = process.env.NETWORKS_CONFIG_PATH || path.join(process.cwd(), 'config', 'networks.json');
 
   private constructor() {}
 
@@ -69,50 +69,124 @@ export class ChainManager {
     return ChainManager.instance;
   }
 
+  // Only a missing file means "use the defaults"; an unreadable or invalid one still serves them, but blocks edits
+  private async loadNetworks(): Promise<ConfiguredNetworks> {
+    try {
+      return { networks: NetworksFileSchema.parse(JSON.parse(await fs.readFile(this.configPath, 'utf8'))).networks, error: null };
+    } catch (error) {
+      const message = (error as Error).message;
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        console.warn(`Networks file ${this.configPath} not found, using public endpoints`);
+        return { networks: DEFAULT_NETWORKS, error: null };
+      }
+      console.error(`Networks file ${this.configPath} could not be loaded, using public endpoints:`, message);
+      return { networks: DEFAULT_NETWORKS, error: message };
+    }
+  }
+
+  private getConfigured(): Promise<ConfiguredNetworks> {
+    if (!this.configured) {
+      this.configured = this.loadNetworks();
+    }
+    return this.configured;
+  }
+
+  // Environment endpoints are tried before the configured ones
+  async getNetworks(): Promise<Network[]> {
+    return (await this.getConfigured()).networks.map(network => {
+      const envEndpoints = getEnvEndpoints(network.cluster);
+      return { ...network, rpc: [...envEndpoints, ...network.rpc.filter(url => !envEndpoints.includes(url))] };
+    });
+  }
+
   async getNetwork(cluster: string): Promise<Network | undefined> {
-    return this.networks.find(network => network.cluster === cluster);
+    return (await this.getNetworks()).find(network => network.cluster === cluster);
+  }
+
+  private async saveNetworks(networks: Network[]) {
+    await fs.mkdir(path.dirname(this.configPath), { recursive: true });
+    await fs.writeFile(this.configPath, `${JSON.stringify({ networks }, null, 2)}\n`);
+    this.configured = Promise.resolve({ networks, error: null });
+  }
+
+  // Writing back the defaults would wipe every network in a file that merely failed to load
+  private async getEditableNetworks(): Promise<Network[]> {
+    const { networks, error } = await this.getConfigured();
+    if (error) throw new Error(`Networks file ${this.configPath} could not be loaded, not changing it: ${error}`);
+    return networks;
   }
 
+  private resetCluster(cluster: string) {
+    this.pools.delete(cluster);
+    this.connectionCache.delete(cluster);
+  }
+
+  // Adds a network, or replaces the one with the same cluster name, and writes it to the networks file
+  async registerNetwork(network: Network): Promise<Network> {
+    const parsed = NetworkSchema.parse(network);
+    if (parsed.rpc.length === 0 && getEnvEndpoints(parsed.cluster).length === 0) {
+      throw new Error(`Network ${parsed.cluster} needs at least one RPC endpoint`);
+    }
+
+    const networks = (await this.getEditableNetworks()).filter(existing => existing.cluster !== parsed.cluster);
+    await this.saveNetworks([...networks, parsed]);
+    this.resetCluster(parsed.cluster);
+    return parsed;
+  }
+
+  // Returns false when no such network was registered
+  async removeNetwork(cluster: string): Promise<boolean> {
+    const networks = await this.getEditableNetworks();
+    if (!networks.some(network => network.cluster === cluster)) return false;
+
+    await this.saveNetworks(networks.filter(network => network.cluster !== cluster));
+    this.resetCluster(cluster);
+    return true;
+  }
+
+  private async getPool(cluster: string): Promise<RpcPool> {
+    const cached = this.pools.get(cluster);
+    if (cached) return cached;
+
+    const network = await this.getNetwork(cluster);
+    if (!network) throw new Error(`Network ${cluster} not found`);
+    if (network.rpc.length === 0) throw new Error(`No RPC endpoints found for network ${cluster}`);
+
+    const pool = new RpcPool(cluster, network.rpc);
+    this.pools.set(cluster, pool);
+    return pool;
+  }
+
+  // Every call made through the returned connection is retried and failed over by the cluster's pool
   async getConnection(cluster: string): Promise<Connection> {
-    // Check cache first
     const cachedConnection = this.connectionCache.get(cluster);
     if (cachedConnection) {
       return cachedConnection;
     }
 
-    const network = await this.getNetwork(cluster);
-    if (!network) throw new Error(`Network ${cluster} not found`);
-    if (!network.rpc || network.rpc.length === 0) throw new Error(`No RPC endpoints found for network ${cluster}`);
-
-    const errors: Error[] = [];
-    for (const rpc of network.rpc) {
-      try {
-        console.log(`Trying RPC: ${rpc}`);
-        const connection = new Connection(rpc, {
-          commitment: 'confirmed',
-          disableRetryOnRateLimit: true
-        });
-        
-        // Test the connection
-        await connection.getSlot();
-        console.log(`Successfully connected to RPC: ${rpc}`);
-        
-        // Cache the successful connection
-        this.connectionCache.set(cluster, connection);
-        
-        return connection;
-      } catch (error) {
-        console.warn(`RPC ${rpc} failed:`, error);
-        errors.push(error as Error);
-        continue;
-      }
-    }
-    
-    throw new Error(`All RPCs failed for network ${cluster}. Errors: ${errors.map(e => e.message).join(', ')}`);
+    const pool = await this.getPool(cluster);
+    const connection = new Connection(pool.primaryUrl, {
+      commitment: 'confirmed',
+      // The pool handles 429s itself, across endpoints
+      disableRetryOnRateLimit: true,
+      fetch: pool.fetch
+    });
+
+    this.connectionCache.set(cluster, connection);
+    return connection;
   }
 
-  // Helper method to clear connection cache if needed
+  // Endpoint health and which endpoint served recent calls, for clusters that have been used
+  getRpcHealth(cluster?: string): RpcHealthReport[] {
+    return Array.from(this.pools.values())
+      .filter(pool => !cluster || pool.cluster === cluster)
+      .map(pool => ({ cluster: pool.cluster, endpoints: pool.getHealth(), recentCalls: pool.getRecentCalls() }));
+  }
+
+  // Re-read the networks file and start over with fresh endpoint statistics
   clearConnectionCache() {
+    this.configured = null;
+    this.pools.clear();
     this.connectionCache.clear();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,59 @@
+import { ComputeBreakdown, ComputeFrame, CostAnalysis, InvocationNode, ProgramComputeUsage } from '../types';
+
+function toFrame(node: InvocationNode): ComputeFrame {
+  const children = node.children.map(toFrame);
+  const childUnits = children.reduce((sum, child) => sum + (child.units ?? 0), 0);
+
+  return {
+    programId: node.programId,
+    programName: node.programName,
+    instructionName: node.instructionName,
+    depth: node.depth,
+    instructionIndex: node.instructionIndex,
+    innerInstructionIndex: node.innerInstructionIndex,
+    units: node.computeUnitsConsumed,
+    // "consumed" lines are inclusive of CPIs, so a caller's own cost is what its callees did not use
+    selfUnits: node.computeUnitsConsumed === null ? null : Math.max(node.computeUnitsConsumed - childUnits, 0),
+    children
+  };
+}
+
+function percentOf(units: number, total: number): number {
+  return total > 0 ? Math.round((units / total) * 10000) / 100 : 0;
+}
+
+// Where the transaction's compute budget went, per instruction, per CPI and per program
+export function buildComputeBreakdown(invocations: InvocationNode[], costAnalysis: CostAnalysis): ComputeBreakdown {
+  const frames = invocations.map(toFrame);
+  const attributedUnits = frames.reduce((sum, frame) => sum + (frame.units ?? 0), 0);
+  const totalUnits = costAnalysis.computeUnitsConsumed;
+
+  const usage = new Map<string, ProgramComputeUsage>();
+  const visit = (frame: ComputeFrame) => {
+    const entry = usage.get(frame.programId) || {
+      programId: frame.programId,
+      programName: frame.programName,
+      invocations: 0,
+      selfUnits: 0,
+      percent: 0
+    };
+    entry.invocations++;
+    entry.selfUnits += frame.selfUnits ?? 0;
+    usage.set(frame.programId, entry);
+    frame.children.forEach(visit);
+  };
+  frames.forEach(visit);
+
+  const total = totalUnits ?? attributedUnits;
+  const programs = Array.from(usage.values())
+    .map(entry => ({ ...entry, percent: percentOf(entry.selfUnits, total) }))
+    .sort((a, b) => b.selfUnits - a.selfUnits);
+
+  return {
+    totalUnits,
+    limit: costAnalysis.computeUnitLimit,
+    unattributedUnits: Math.max(total - attributedUnits, 0),
+    frames,
+    programs
+  };
+}
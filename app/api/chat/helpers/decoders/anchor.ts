@@ -0,0 +1,188 @@
+import { AnchorIdl, IdlAccountItem, IdlField, IdlType, IdlTypeDef } from '../idlLoader';
+import { BorshReader } from './borsh';
+import { DecodedInstruction } from './types';
+
+export const DISCRIMINATOR_SIZE = 8;
+
+function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+// Anchor discriminators are the first 8 bytes of sha256("<namespace>:<name>")
+export async function sighash(namespace: string, name: string): Promise<Uint8Array> {
+  const preimage = new TextEncoder().encode(`${namespace}:${name}`);
+  const hash = await crypto.subtle.digest('SHA-256', preimage);
+  return new Uint8Array(hash).slice(0, DISCRIMINATOR_SIZE);
+}
+
+export async function getDiscriminator(
+  item: { name: string; discriminator?: number[] },
+  namespace: 'global' | 'event'
+): Promise<Uint8Array> {
+  if (item.discriminator) {
+    return Uint8Array.from(item.discriminator);
+  }
+  // Legacy IDLs use camelCase instruction names but hash the Rust (snake_case) name
+  return sighash(namespace, namespace === 'global' ? toSnakeCase(item.name) : item.name);
+}
+
+export function matchesDiscriminator(data: Uint8Array, discriminator: Uint8Array): boolean {
+  if (data.length < discriminator.length) return false;
+  return discriminator.every((byte, i) => data[i] === byte);
+}
+
+function findTypeDef(idl: AnchorIdl, defined: string | { name: string }): IdlTypeDef {
+  const name = typeof defined === 'string' ? defined : defined.name;
+  const typeDef = idl.types?.find(t => t.name === name);
+  if (!typeDef) {
+    throw new Error(`Type ${name} not found in IDL`);
+  }
+  return typeDef;
+}
+
+function isNamedField(field: IdlField | IdlType): field is IdlField {
+  return typeof field === 'object' && 'name' in field && 'type' in field;
+}
+
+function decodeFields(reader: BorshReader, fields: (IdlField | IdlType)[], idl: AnchorIdl): unknown {
+  if (fields.every(isNamedField)) {
+    return decodeNamedFields(reader, fields as IdlField[], idl);
+  }
+  // Tuple fields
+  return fields.map(field => decodeIdlType(reader, field as IdlType, idl));
+}
+
+export function decodeNamedFields(
+  reader: BorshReader,
+  fields: IdlField[],
+  idl: AnchorIdl
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const field of fields) {
+    result[field.name] = decodeIdlType(reader, field.type, idl);
+  }
+  return result;
+}
+
+export function decodeIdlType(reader: BorshReader, type: IdlType, idl: AnchorIdl): unknown {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'bool': return reader.bool();
+      case 'u8': return reader.u8();
+      case 'i8': return reader.i8();
+      case 'u16': return reader.u16();
+      case 'i16': return reader.i16();
+      case 'u32': return reader.u32();
+      case 'i32': return reader.i32();
+      case 'f32': return reader.f32();
+      case 'f64': return reader.f64();
+      // 64 and 128-bit integers are kept as strings so no precision is lost
+      case 'u64': return reader.u64().toString();
+      case 'i64': return reader.i64().toString();
+      case 'u128': return reader.u128().toString();
+      case 'i128': return reader.i128().toString();
+      case 'string': return reader.string();
+      case 'bytes': return Buffer.from(reader.bytes(reader.u32())).toString('base64');
+      case 'publicKey':
+      case 'pubkey':
+        return reader.publicKey();
+      default:
+        throw new Error(`Unsupported IDL type ${type}`);
+    }
+  }
+
+  if ('option' in type) {
+    return reader.u8() === 0 ? null : decodeIdlType(reader, type.option, idl);
+  }
+  if ('coption' in type) {
+    return reader.u32() === 0 ? null : decodeIdlType(reader, type.coption, idl);
+  }
+  if ('vec' in type) {
+    const length = reader.u32();
+    return Array.from({ length }, () => decodeIdlType(reader, type.vec, idl));
+  }
+  if ('array' in type) {
+    const [itemType, length] = type.array;
+    return Array.from({ length }, () => decodeIdlType(reader, itemType, idl));
+  }
+
+  const typeDef = findTypeDef(idl, type.defined);
+  switch (typeDef.type.kind) {
+    case 'struct':
+      return decodeFields(reader, typeDef.type.fields || [], idl);
+    case 'enum': {
+      const variant = typeDef.type.variants[reader.u8()];
+      if (!variant) {
+        throw new Error(`Invalid variant for enum ${typeDef.name}`);
+      }
+      return variant.fields?.length
+        ? { [variant.name]: decodeFields(reader, variant.fields, idl) }
+        : variant.name;
+    }
+    case 'type':
+      return decodeIdlType(reader, typeDef.type.alias, idl);
+  }
+}
+
+// Composite account structs are flattened with dotted names, e.g. `pool.vault`
+function flattenAccounts(items: IdlAccountItem[], prefix: string = ''): string[] {
+  return items.flatMap(item =>
+    item.accounts
+      ? flattenAccounts(item.accounts, `${prefix}${item.name}.`)
+      : [`${prefix}${item.name}`]
+  );
+}
+
+export async function decodeAnchorInstruction(
+  idl: AnchorIdl,
+  data: Uint8Array,
+  accounts: string[]
+): Promise<DecodedInstruction | null> {
+  for (const ix of idl.instructions) {
+    const discriminator = await getDiscriminator(ix, 'global');
+    if (!matchesDiscriminator(data, discriminator)) continue;
+
+    const reader = new BorshReader(data.subarray(discriminator.length));
+    const args = decodeNamedFields(reader, ix.args, idl);
+
+    const accountNames = flattenAccounts(ix.accounts);
+    const namedAccounts: Record<string, string> = {};
+    accountNames.forEach((name, i) => {
+      if (accounts[i]) namedAccounts[name] = accounts[i];
+    });
+
+    return {
+      instructionName: ix.name,
+      params: {
+        args,
+        accounts: namedAccounts,
+        remainingAccounts: accounts.slice(accountNames.length)
+      }
+    };
+  }
+
+  return null;
+}
+
+// Events emitted with `emit!` are logged as "Program data: <base64>": discriminator + Borsh fields.
+// Current IDLs describe event fields in `types`; legacy IDLs inline them on the event.
+export async function decodeAnchorEvent(
+  idl: AnchorIdl,
+  data: Uint8Array
+): Promise<{ name: string; fields: Record<string, unknown> } | null> {
+  for (const event of idl.events || []) {
+    const discriminator = await getDiscriminator(event, 'event');
+    if (!matchesDiscriminator(data, discriminator)) continue;
+
+    const typeDef = idl.types?.find(t => t.name === event.name);
+    const fields = event.fields || (typeDef?.type.kind === 'struct' ? typeDef.type.fields : undefined) || [];
+    const reader = new BorshReader(data.subarray(discriminator.length));
+
+    return { name: event.name, fields: decodeNamedFields(reader, fields as IdlField[], idl) };
+  }
+
+  return null;
+}
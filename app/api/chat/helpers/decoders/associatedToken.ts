@@ -0,0 +1,9 @@
+import { createLabelDecoder } from './common';
+
+export const ASSOCIATED_TOKEN_PROGRAM_ID = 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL';
+
+export const associatedTokenDecoder = createLabelDecoder(ASSOCIATED_TOKEN_PROGRAM_ID, 'Associated Token Program', {
+  'create': 'Create Associated Token Account',
+  'createIdempotent': 'Create Associated Token Account (Idempotent)',
+  'recover': 'Recover Nested Token Account'
+});
@@ -0,0 +1,116 @@
+import { PublicKey } from '@solana/web3.js';
+
+// Minimal little-endian Borsh reader for instruction and account data
+export class BorshReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private data: Uint8Array) {
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  }
+
+  get remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  private ensure(size: number) {
+    if (this.offset + size > this.data.length) {
+      throw new Error(`Unexpected end of data: need ${size} bytes at offset ${this.offset}`);
+    }
+  }
+
+  u8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  i8(): number {
+    this.ensure(1);
+    return this.view.getInt8(this.offset++);
+  }
+
+  u16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  i16(): number {
+    this.ensure(2);
+    const value = this.view.getInt16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): bigint {
+    this.ensure(8);
+    const value = this.view.getBigUint64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  i64(): bigint {
+    this.ensure(8);
+    const value = this.view.getBigInt64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  u128(): bigint {
+    const low = this.u64();
+    const high = this.u64();
+    return (high << BigInt(64)) | low;
+  }
+
+  i128(): bigint {
+    return BigInt.asIntN(128, this.u128());
+  }
+
+  f32(): number {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  f64(): number {
+    this.ensure(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  bytes(length: number): Uint8Array {
+    this.ensure(length);
+    const value = this.data.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytes(this.u32()));
+  }
+
+  publicKey(): string {
+    return new PublicKey(this.bytes(32)).toBase58();
+  }
+}
@@ -0,0 +1,26 @@
+import { createLabelDecoder } from './common';
+
+export const BPF_LOADER_ID = 'BPFLoader2111111111111111111111111111111111';
+export const BPF_LOADER_DEPRECATED_ID = 'BPFLoader1111111111111111111111111111111111';
+export const BPF_UPGRADEABLE_LOADER_ID = 'BPFLoaderUpgradeab1e11111111111111111111111';
+export const LOADER_V4_ID = 'LoaderV411111111111111111111111111111111111';
+export const NATIVE_LOADER_ID = 'NativeLoader1111111111111111111111111111111';
+
+// Keys are the RPC's jsonParsed instruction types
+export const UPGRADEABLE_LOADER_INSTRUCTIONS: Record<string, string> = {
+  initializeBuffer: 'Initialize Buffer',
+  write: 'Write',
+  deployWithMaxDataLen: 'Deploy Program',
+  upgrade: 'Upgrade Program',
+  setAuthority: 'Set Authority',
+  setAuthorityChecked: 'Set Authority (Checked)',
+  close: 'Close',
+  extendProgram: 'Extend Program',
+  default: 'Unknown Loader Instruction'
+};
+
+export const bpfUpgradeableLoaderDecoder = createLabelDecoder(
+  BPF_UPGRADEABLE_LOADER_ID,
+  'BPF Upgradeable Loader',
+  UPGRADEABLE_LOADER_INSTRUCTIONS
+);
@@ -0,0 +1,65 @@
+import { PartiallyDecodedInstruction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { IdlLoader } from '../idlLoader';
+import { decodeAnchorInstruction } from './anchor';
+import { DecodedInstruction, DecoderContext, INSTRUCTION_TYPE, ProgramDecoder } from './types';
+
+export function decodeInstructionData(data: string): string {
+  try {
+    // Try to decode base58 data
+    return Buffer.from(bs58.decode(data)).toString('utf8');
+  } catch (e) {
+    return data;
+  }
+}
+
+// Prefers the program's Anchor IDL; otherwise returns the fallback name with raw data
+export async function decodeRawInstruction(
+  instruction: PartiallyDecodedInstruction,
+  instructionName: string,
+  context?: DecoderContext
+): Promise<DecodedInstruction> {
+  const accounts = instruction.accounts.map(acc => acc.toBase58());
+
+  try {
+    const idl = await IdlLoader.getInstance().getIdl(context?.connection, instruction.programId.toBase58());
+    if (idl) {
+      const decoded = await decodeAnchorInstruction(idl, bs58.decode(instruction.data), accounts);
+      if (decoded) return decoded;
+    }
+  } catch (error) {
+    console.warn(`Anchor decoding failed for ${instruction.programId.toBase58()}:`, error);
+  }
+
+  return {
+    instructionName,
+    params: {
+      data: decodeInstructionData(instruction.data),
+      accounts
+    }
+  };
+}
+
+// Decoder for programs we only know by name: parsed instructions keep their RPC-provided
+// info, everything else goes through the IDL or falls back to the `default` label
+export function createLabelDecoder(
+  id: string,
+  name: string,
+  instructions: Record<string, string>
+): ProgramDecoder {
+  return {
+    id,
+    name,
+    async decodeInstruction(instruction: INSTRUCTION_TYPE, context?: DecoderContext): Promise<DecodedInstruction> {
+      if ('parsed' in instruction) {
+        const type = instruction.parsed.type;
+        return {
+          instructionName: instructions[type] || type || 'Unknown Instruction',
+          params: instruction.parsed.info || {}
+        };
+      }
+
+      return decodeRawInstruction(instruction, instructions.default || 'Unknown Instruction', context);
+    }
+  };
+}
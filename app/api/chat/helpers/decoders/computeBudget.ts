@@ -0,0 +1,65 @@
+import bs58 from 'bs58';
+import { BorshReader } from './borsh';
+import { createLabelDecoder, decodeRawInstruction } from './common';
+import { DecodedInstruction, ProgramDecoder } from './types';
+
+export const COMPUTE_BUDGET_PROGRAM_ID = 'ComputeBudget111111111111111111111111111111';
+
+export interface ComputeBudgetInstruction {
+  type: 'requestUnits' | 'requestHeapFrame' | 'setComputeUnitLimit' | 'setComputeUnitPrice' | 'setLoadedAccountsDataSizeLimit';
+  units?: number;
+  additionalFee?: number;
+  bytes?: number;
+  microLamports?: string;
+}
+
+const INSTRUCTION_NAMES: Record<ComputeBudgetInstruction['type'], string> = {
+  requestUnits: 'Request Units (Deprecated)',
+  requestHeapFrame: 'Request Heap Frame',
+  setComputeUnitLimit: 'Set Compute Unit Limit',
+  setComputeUnitPrice: 'Set Compute Unit Price',
+  setLoadedAccountsDataSizeLimit: 'Set Loaded Accounts Data Size Limit'
+};
+
+// The first byte is the instruction tag, followed by its little-endian arguments
+export function decodeComputeBudgetData(data: Uint8Array): ComputeBudgetInstruction | null {
+  try {
+    const reader = new BorshReader(data);
+    switch (reader.u8()) {
+      case 0:
+        return { type: 'requestUnits', units: reader.u32(), additionalFee: reader.u32() };
+      case 1:
+        return { type: 'requestHeapFrame', bytes: reader.u32() };
+      case 2:
+        return { type: 'setComputeUnitLimit', units: reader.u32() };
+      case 3:
+        return { type: 'setComputeUnitPrice', microLamports: reader.u64().toString() };
+      case 4:
+        return { type: 'setLoadedAccountsDataSizeLimit', bytes: reader.u32() };
+      default:
+        return null;
+    }
+  } catch (error) {
+    console.warn('Error decoding Compute Budget instruction:', error);
+    return null;
+  }
+}
+
+export const computeBudgetDecoder: ProgramDecoder = {
+  ...createLabelDecoder(COMPUTE_BUDGET_PROGRAM_ID, 'Compute Budget Program', {
+    default: 'Compute Budget Instruction'
+  }),
+  async decodeInstruction(instruction, context): Promise<DecodedInstruction> {
+    if ('parsed' in instruction) {
+      return { instructionName: instruction.parsed.type, params: instruction.parsed.info || {} };
+    }
+
+    const decoded = decodeComputeBudgetData(bs58.decode(instruction.data));
+    if (!decoded) {
+      return decodeRawInstruction(instruction, 'Unknown Compute Budget Instruction', context);
+    }
+
+    const { type, ...params } = decoded;
+    return { instructionName: INSTRUCTION_NAMES[type], params };
+  }
+};
@@ -0,0 +1,4 @@
+export * from './types';
+export { DecoderRegistry } from './registry';
+export { createLabelDecoder, decodeInstructionData, decodeRawInstruction } from './common';
+export { decodeAnchorInstruction } from './anchor';
@@ -0,0 +1,33 @@
+import { createLabelDecoder } from './common';
+import { DecoderRegistry } from './registry';
+import { buildSwapAction, getAggregatorHops, getInstructionTree, toSwapActions } from './swaps';
+import { ProgramDecoder } from './types';
+import { SYSTEM_PROGRAM_ID } from './system';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './associatedToken';
+
+export const JUPITER_PROGRAM_ID = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+export const JUPITER_V4_PROGRAM_ID = 'JUP4Fb2cqiRUcaTHdrPC8h2gNsA2ETXiPDD33WcGuJB';
+
+// Programs Jupiter calls for account setup rather than to route the swap
+const NON_AMM_PROGRAMS = [SYSTEM_PROGRAM_ID, ASSOCIATED_TOKEN_PROGRAM_ID];
+
+export const jupiterDecoder: ProgramDecoder = {
+  ...createLabelDecoder(JUPITER_PROGRAM_ID, 'Jupiter Aggregator v6', {
+    default: 'Swap Tokens'
+  }),
+  async extractActions(_instruction, context) {
+    const tree = getInstructionTree(context.tx, context.instructionIndex);
+    const hops = getAggregatorHops(context.tx, tree, 0, NON_AMM_PROGRAMS);
+    const swap = await buildSwapAction(
+      'Jupiter v6',
+      hops,
+      context,
+      programId => DecoderRegistry.getInstance().getDecoder(programId).name
+    );
+    return toSwapActions(swap);
+  }
+};
+
+export const jupiterV4Decoder = createLabelDecoder(JUPITER_V4_PROGRAM_ID, 'Jupiter Aggregator v4', {
+  default: 'Swap Tokens'
+});
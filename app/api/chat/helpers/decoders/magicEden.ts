@@ -0,0 +1,7 @@
+import { createLabelDecoder } from './common';
+
+export const MAGIC_EDEN_V2_PROGRAM_ID = 'M2mx93ekt1fmXSVkTrUL9xVFHkmME8HTUi5Cyc5aF7K';
+
+export const magicEdenDecoder = createLabelDecoder(MAGIC_EDEN_V2_PROGRAM_ID, 'Magic Eden v2', {
+  default: 'Magic Eden Operation'
+});
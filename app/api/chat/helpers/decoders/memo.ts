@@ -0,0 +1,7 @@
+import { createLabelDecoder } from './common';
+
+export const MEMO_PROGRAM_ID = 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr';
+
+export const memoDecoder = createLabelDecoder(MEMO_PROGRAM_ID, 'Memo Program', {
+  default: 'Add Memo'
+});
@@ -0,0 +1,20 @@
+import { createLabelDecoder } from './common';
+
+export const METADATA_PROGRAM_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
+export const TOKEN_AUTH_RULES_PROGRAM_ID = 'auth9SigNpDKz4sJJ1DfCTuZrZNSAgh9sFD3rboVmgg';
+
+export const metadataDecoder = createLabelDecoder(METADATA_PROGRAM_ID, 'Token Metadata Program', {
+  'createMetadataAccount': 'Create Metadata Account',
+  'updateMetadataAccount': 'Update Metadata Account',
+  'createMasterEdition': 'Create Master Edition',
+  'verifyCollection': 'Verify Collection',
+  'setAndVerifyCollection': 'Set and Verify Collection',
+  'unverifyCollection': 'Unverify Collection',
+  'burnNft': 'Burn NFT',
+  'verifyCreator': 'Verify Creator',
+  'unverifyCreator': 'Unverify Creator'
+});
+
+export const tokenAuthRulesDecoder = createLabelDecoder(TOKEN_AUTH_RULES_PROGRAM_ID, 'Token Auth Rules', {
+  default: 'Token Authorization Rules'
+});
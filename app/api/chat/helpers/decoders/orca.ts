@@ -0,0 +1,45 @@
+import bs58 from 'bs58';
+import { matchesDiscriminator, sighash } from './anchor';
+import { createLabelDecoder } from './common';
+import { buildSwapAction, getAmmHops, getInstructionTree, LiquidityType, toLiquidityActions, toSwapActions } from './swaps';
+import { ProgramDecoder } from './types';
+
+export const ORCA_WHIRLPOOL_PROGRAM_ID = 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc';
+const ORCA_WHIRLPOOL_NAME = 'Orca Whirlpool';
+// Only these trade against the pool; liquidity and fee instructions move two tokens as well
+const SWAP_INSTRUCTIONS = ['swap', 'swap_v2', 'two_hop_swap', 'two_hop_swap_v2'];
+const LIQUIDITY_INSTRUCTIONS: Record<string, LiquidityType> = {
+  increase_liquidity: 'Add Liquidity',
+  increase_liquidity_v2: 'Add Liquidity',
+  decrease_liquidity: 'Remove Liquidity',
+  decrease_liquidity_v2: 'Remove Liquidity',
+  collect_fees: 'Collect Fees',
+  collect_fees_v2: 'Collect Fees'
+};
+
+let discriminators: Promise<{ name: string; discriminator: Uint8Array }[]> | null = null;
+
+async function getInstructionName(data: string): Promise<string | null> {
+  if (!discriminators) {
+    const names = [...SWAP_INSTRUCTIONS, ...Object.keys(LIQUIDITY_INSTRUCTIONS)];
+    discriminators = Promise.all(names.map(async name => ({ name, discriminator: await sighash('global', name) })));
+  }
+  const bytes = bs58.decode(data);
+  return (await discriminators).find(({ discriminator }) => matchesDiscriminator(bytes, discriminator))?.name ?? null;
+}
+
+export const orcaDecoder: ProgramDecoder = {
+  ...createLabelDecoder(ORCA_WHIRLPOOL_PROGRAM_ID, ORCA_WHIRLPOOL_NAME, {
+    default: 'Swap Tokens'
+  }),
+  async extractActions(instruction, context) {
+    if ('parsed' in instruction) return null;
+    const name = await getInstructionName(instruction.data);
+    if (name && LIQUIDITY_INSTRUCTIONS[name]) return toLiquidityActions(LIQUIDITY_INSTRUCTIONS[name]);
+    if (!name || !SWAP_INSTRUCTIONS.includes(name)) return null;
+
+    const tree = getInstructionTree(context.tx, context.instructionIndex);
+    const swap = await buildSwapAction('Orca Whirlpool', getAmmHops(context.tx, tree, 0), context, () => ORCA_WHIRLPOOL_NAME);
+    return toSwapActions(swap);
+  }
+};
@@ -0,0 +1,57 @@
+import bs58 from 'bs58';
+import { BorshReader } from './borsh';
+import { createLabelDecoder, decodeRawInstruction } from './common';
+import { buildSwapAction, getAmmHops, getInstructionTree, toLiquidityActions, toSwapActions } from './swaps';
+import { ProgramDecoder } from './types';
+
+export const RAYDIUM_V4_PROGRAM_ID = '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8';
+const RAYDIUM_V4_NAME = 'Raydium Liquidity Pool V4';
+
+// Raydium AMM v4 is a native program: the first data byte selects the instruction
+const DEPOSIT = 3;
+const WITHDRAW = 4;
+const SWAP_BASE_IN = 9;
+const SWAP_BASE_OUT = 11;
+
+export const raydiumDecoder: ProgramDecoder = {
+  ...createLabelDecoder(RAYDIUM_V4_PROGRAM_ID, RAYDIUM_V4_NAME, {
+    default: 'Swap Tokens'
+  }),
+  async decodeInstruction(instruction, context) {
+    if ('parsed' in instruction) {
+      return { instructionName: instruction.parsed.type, params: instruction.parsed.info || {} };
+    }
+
+    const raw = await decodeRawInstruction(instruction, 'Raydium Operation', context);
+    try {
+      const reader = new BorshReader(bs58.decode(instruction.data));
+      const tag = reader.u8();
+      if (tag === SWAP_BASE_IN) {
+        return {
+          instructionName: 'Swap Base In',
+          params: { ...raw.params, amountIn: reader.u64().toString(), minimumAmountOut: reader.u64().toString() }
+        };
+      }
+      if (tag === SWAP_BASE_OUT) {
+        return {
+          instructionName: 'Swap Base Out',
+          params: { ...raw.params, maxAmountIn: reader.u64().toString(), amountOut: reader.u64().toString() }
+        };
+      }
+    } catch (error) {
+      console.warn('Error decoding Raydium instruction:', error);
+    }
+    return raw;
+  },
+  async extractActions(instruction, context) {
+    if ('parsed' in instruction) return null;
+    const tag = bs58.decode(instruction.data)[0];
+    if (tag === DEPOSIT) return toLiquidityActions('Add Liquidity');
+    if (tag === WITHDRAW) return toLiquidityActions('Remove Liquidity');
+    if (tag !== SWAP_BASE_IN && tag !== SWAP_BASE_OUT) return null;
+
+    const tree = getInstructionTree(context.tx, context.instructionIndex);
+    const swap = await buildSwapAction('Raydium AMM v4', getAmmHops(context.tx, tree, 0), context, () => RAYDIUM_V4_NAME);
+    return toSwapActions(swap);
+  }
+};
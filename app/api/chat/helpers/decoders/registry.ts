@@ -0,0 +1,85 @@
+import { PublicKey } from '@solana/web3.js';
+import { createLabelDecoder } from './common';
+import { ProgramDecoder } from './types';
+import { systemDecoder } from './system';
+import { tokenDecoder } from './token';
+import { token2022Decoder } from './token2022';
+import { associatedTokenDecoder } from './associatedToken';
+import { metadataDecoder, tokenAuthRulesDecoder } from './metaplex';
+import { jupiterDecoder, jupiterV4Decoder } from './jupiter';
+import { raydiumDecoder } from './raydium';
+import { orcaDecoder } from './orca';
+import { serumDecoder } from './serum';
+import { stakeDecoder, marinadeDecoder } from './stake';
+import { computeBudgetDecoder } from './computeBudget';
+import { magicEdenDecoder } from './magicEden';
+import { memoDecoder } from './memo';
+import { bpfUpgradeableLoaderDecoder } from './bpfLoader';
+
+const BUILTIN_DECODERS: ProgramDecoder[] = [
+  // Core Programs
+  systemDecoder,
+  tokenDecoder,
+  token2022Decoder,
+  associatedTokenDecoder,
+  bpfUpgradeableLoaderDecoder,
+  metadataDecoder,
+  // Popular DEX Programs
+  jupiterDecoder,
+  jupiterV4Decoder,
+  raydiumDecoder,
+  orcaDecoder,
+  serumDecoder,
+  // Other Popular Programs
+  stakeDecoder,
+  marinadeDecoder,
+  computeBudgetDecoder,
+  magicEdenDecoder,
+  tokenAuthRulesDecoder,
+  memoDecoder
+];
+
+// Per-program decoder lookup
+export class DecoderRegistry {
+  private static instance: DecoderRegistry;
+  private decoders: Map<string, ProgramDecoder> = new Map();
+
+  private constructor() {
+    BUILTIN_DECODERS.forEach(decoder => this.register(decoder));
+  }
+
+  static getInstance(): DecoderRegistry {
+    if (!DecoderRegistry.instance) {
+      DecoderRegistry.instance = new DecoderRegistry();
+    }
+    return DecoderRegistry.instance;
+  }
+
+  // Registering an ID that already exists replaces the previous decoder
+  register(decoder: ProgramDecoder) {
+    this.decoders.set(decoder.id, decoder);
+  }
+
+  unregister(programId: string) {
+    this.decoders.delete(programId);
+  }
+
+  has(programId: PublicKey | string): boolean {
+    return this.decoders.has(programId.toString());
+  }
+
+  list(): ProgramDecoder[] {
+    return Array.from(this.decoders.values());
+  }
+
+  // Always returns a decoder; unknown programs get a generic fallback
+  getDecoder(programId: PublicKey | string): ProgramDecoder {
+    const programAddress = programId instanceof PublicKey ? programId.toBase58() : programId;
+
+    return this.decoders.get(programAddress) || createLabelDecoder(
+      programAddress,
+      `Unknown Program (${programAddress})`,
+      { default: 'Unknown Instruction' }
+    );
+  }
+}
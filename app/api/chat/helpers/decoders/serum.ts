@@ -0,0 +1,7 @@
+import { createLabelDecoder } from './common';
+
+export const SERUM_V3_PROGRAM_ID = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin';
+
+export const serumDecoder = createLabelDecoder(SERUM_V3_PROGRAM_ID, 'Serum DEX v3', {
+  default: 'DEX Operation'
+});
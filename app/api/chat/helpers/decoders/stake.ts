@@ -0,0 +1,18 @@
+import { createLabelDecoder } from './common';
+
+export const STAKE_PROGRAM_ID = 'Stake11111111111111111111111111111111111111';
+export const MARINADE_PROGRAM_ID = 'MarBmsSgKXdrN1egZf5sqe1TMai9K1rChYNDJgjq7aD';
+
+export const stakeDecoder = createLabelDecoder(STAKE_PROGRAM_ID, 'Stake Program', {
+  'initialize': 'Initialize Stake Account',
+  'delegate': 'Delegate Stake',
+  'withdraw': 'Withdraw Stake',
+  'deactivate': 'Deactivate Stake',
+  'split': 'Split Stake',
+  'merge': 'Merge Stake',
+  'authorizeWithSeed': 'Authorize with Seed'
+});
+
+export const marinadeDecoder = createLabelDecoder(MARINADE_PROGRAM_ID, 'Marinade.Finance', {
+  default: 'Stake SOL'
+});
@@ -0,0 +1,259 @@
+import { ParsedInstruction, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { formatUnits } from '../index';
+import { TokenMetadataManager } from '../tokensMetadataManager';
+import { SwapAction, SwapHop } from '../../types';
+import { DecoderContext, ExtractedActions, INSTRUCTION_TYPE } from './types';
+
+const TOKEN_PROGRAMS = ['spl-token', 'spl-token-2022'];
+const TRANSFER_TYPES = ['transfer', 'transferChecked', 'transferCheckedWithFee'];
+
+interface TreeEntry {
+  instruction: INSTRUCTION_TYPE;
+  // 1 for the top-level instruction, +1 per CPI level
+  stackHeight?: number;
+}
+
+interface TokenAccountInfo {
+  mint: string;
+  owner?: string;
+  decimals: number;
+}
+
+interface TokenTransfer {
+  source: string;
+  destination: string;
+  authority?: string;
+  mint: string;
+  decimals: number;
+  amount: bigint;
+}
+
+interface RawHop {
+  programId: string;
+  input: TokenTransfer;
+  output: TokenTransfer;
+}
+
+// Top-level instruction followed by its inner instructions, in execution order.
+// `stackHeight` is returned by the RPC but missing from web3.js types.
+export function getInstructionTree(tx: ParsedTransactionWithMeta, instructionIndex: number): TreeEntry[] {
+  const inner = tx.meta?.innerInstructions
+    ?.filter(group => group.index === instructionIndex)
+    .flatMap(group => group.instructions) || [];
+
+  return [
+    { instruction: tx.transaction.message.instructions[instructionIndex], stackHeight: 1 },
+    ...inner.map(instruction => ({
+      instruction,
+      stackHeight: (instruction as { stackHeight?: number }).stackHeight
+    }))
+  ];
+}
+
+// Entries invoked directly by the entry at `position`
+export function getChildren(tree: TreeEntry[], position: number): TreeEntry[] {
+  const height = tree[position].stackHeight;
+  const children: TreeEntry[] = [];
+
+  for (let i = position + 1; i < tree.length; i++) {
+    const entry = tree[i];
+    // Without stack heights every inner instruction is treated as a direct child
+    if (height === undefined || entry.stackHeight === undefined) {
+      children.push(entry);
+      continue;
+    }
+    if (entry.stackHeight <= height) break;
+    if (entry.stackHeight === height + 1) children.push(entry);
+  }
+
+  return children;
+}
+
+function getTokenAccounts(tx: ParsedTransactionWithMeta): Map<string, TokenAccountInfo> {
+  const accountKeys = tx.transaction.message.accountKeys;
+  const accounts = new Map<string, TokenAccountInfo>();
+
+  for (const balance of [...(tx.meta?.preTokenBalances || []), ...(tx.meta?.postTokenBalances || [])]) {
+    accounts.set(accountKeys[balance.accountIndex].pubkey.toBase58(), {
+      mint: balance.mint,
+      owner: balance.owner,
+      decimals: balance.uiTokenAmount.decimals
+    });
+  }
+
+  return accounts;
+}
+
+function parseTokenTransfer(
+  instruction: INSTRUCTION_TYPE,
+  tokenAccounts: Map<string, TokenAccountInfo>
+): TokenTransfer | null {
+  if (!('parsed' in instruction)) return null;
+  const { program, parsed } = instruction as ParsedInstruction;
+  if (!TOKEN_PROGRAMS.includes(program) || !TRANSFER_TYPES.includes(parsed.type)) return null;
+
+  const info = parsed.info;
+  const account = tokenAccounts.get(info.source) || tokenAccounts.get(info.destination);
+  const mint = info.mint || account?.mint;
+  if (!mint) return null;
+
+  return {
+    source: info.source,
+    destination: info.destination,
+    authority: info.authority || info.multisigAuthority,
+    mint,
+    decimals: info.tokenAmount?.decimals ?? account?.decimals ?? 0,
+    amount: BigInt(info.tokenAmount?.amount ?? info.amount ?? 0)
+  };
+}
+
+function collectTransfers(entries: TreeEntry[], tokenAccounts: Map<string, TokenAccountInfo>): TokenTransfer[] {
+  return entries
+    .map(entry => parseTokenTransfer(entry.instruction, tokenAccounts))
+    .filter((transfer): transfer is TokenTransfer => transfer !== null);
+}
+
+// AMM swaps move tokens in (user -> vault) then out (vault -> user); multi-hop
+// pools such as Whirlpool two-hop swaps repeat that pattern per leg
+export function pairTransfers(programId: string, transfers: TokenTransfer[]): RawHop[] {
+  const hops: RawHop[] = [];
+  for (let i = 0; i + 1 < transfers.length; i += 2) {
+    hops.push({ programId, input: transfers[i], output: transfers[i + 1] });
+  }
+  return hops;
+}
+
+// A swap leg pays into a pool vault and out of a vault owned by the same pool authority, which is not the payer.
+// Liquidity deposits (both transfers from the user) and withdrawals (both from the pool) fail this check.
+function isSwapHop(hop: RawHop, tokenAccounts: Map<string, TokenAccountInfo>): boolean {
+  const pool = hop.output.authority;
+  if (!pool || !hop.input.authority || hop.input.authority === pool) return false;
+
+  const inputVaultOwner = tokenAccounts.get(hop.input.destination)?.owner ?? pool;
+  const outputVaultOwner = tokenAccounts.get(hop.output.source)?.owner ?? pool;
+  const recipient = tokenAccounts.get(hop.output.destination)?.owner;
+  return inputVaultOwner === pool && outputVaultOwner === pool && recipient !== pool;
+}
+
+// Hops made by an AMM program at `position` in the tree, from its direct token transfers.
+// Only call this for the program's swap instructions; other hops going the wrong way are dropped.
+export function getAmmHops(tx: ParsedTransactionWithMeta, tree: TreeEntry[], position: number): RawHop[] {
+  const programId = tree[position].instruction.programId.toBase58();
+  const tokenAccounts = getTokenAccounts(tx);
+  const transfers = collectTransfers(getChildren(tree, position), tokenAccounts);
+  return pairTransfers(programId, transfers).filter(hop => isSwapHop(hop, tokenAccounts));
+}
+
+// Aggregator hops: every non-token program the aggregator CPIs into is treated as an AMM leg
+export function getAggregatorHops(
+  tx: ParsedTransactionWithMeta,
+  tree: TreeEntry[],
+  position: number,
+  ignoredPrograms: string[]
+): RawHop[] {
+  const tokenAccounts = getTokenAccounts(tx);
+  const hops: RawHop[] = [];
+  const aggregatorId = tree[position].instruction.programId.toBase58();
+
+  if (tree[position].stackHeight === undefined || tree.some(entry => entry.stackHeight === undefined)) {
+    return pairTransfers(aggregatorId, collectTransfers(tree.slice(position + 1), tokenAccounts));
+  }
+
+  tree.forEach((entry, i) => {
+    if (i <= position || entry.stackHeight !== (tree[position].stackHeight as number) + 1) return;
+
+    const programId = entry.instruction.programId.toBase58();
+    if (programId === aggregatorId || ignoredPrograms.includes(programId)) return;
+    if ('parsed' in entry.instruction && TOKEN_PROGRAMS.includes(entry.instruction.program)) return;
+
+    const transfers = collectTransfers(getChildren(tree, i), tokenAccounts);
+    if (transfers.length >= 2) {
+      // Anything between the first and last transfer is internal to the AMM
+      hops.push({ programId, input: transfers[0], output: transfers[transfers.length - 1] });
+    }
+  });
+
+  return hops;
+}
+
+function sumAmounts(transfers: TokenTransfer[]): bigint {
+  return transfers.reduce((sum, transfer) => sum + transfer.amount, BigInt(0));
+}
+
+function formatPrice(inputAmount: string, outputAmount: string): string {
+  const input = Number(inputAmount);
+  return input > 0 ? (Number(outputAmount) / input).toString() : '0';
+}
+
+// Collapses hops into one swap: the route input is the mint no hop produces and the output
+// the mint no hop consumes, so split routes sum naturally
+export async function buildSwapAction(
+  protocol: string,
+  hops: RawHop[],
+  context: DecoderContext,
+  getProgramName: (programId: string) => string
+): Promise<SwapAction | null> {
+  if (hops.length === 0) return null;
+
+  const inputMints = new Set(hops.map(hop => hop.input.mint));
+  const outputMints = new Set(hops.map(hop => hop.output.mint));
+  const routeInput = hops.find(hop => !outputMints.has(hop.input.mint))?.input || hops[0].input;
+  const routeOutput = [...hops].reverse().find(hop => !inputMints.has(hop.output.mint))?.output
+    || hops[hops.length - 1].output;
+
+  const inputTransfers = hops.map(hop => hop.input).filter(t => t.mint === routeInput.mint);
+  const outputTransfers = hops.map(hop => hop.output).filter(t => t.mint === routeOutput.mint);
+  const inputAmount = formatUnits(sumAmounts(inputTransfers), routeInput.decimals);
+  const outputAmount = formatUnits(sumAmounts(outputTransfers), routeOutput.decimals);
+
+  // The wallet is whoever signed the input transfer; aggregators move funds
+  // through their own PDAs, in which case we fall back to the fee payer
+  const signers = context.tx.transaction.message.accountKeys
+    .filter(key => key.signer)
+    .map(key => key.pubkey.toBase58());
+  const user = routeInput.authority && signers.includes(routeInput.authority)
+    ? routeInput.authority
+    : signers[0];
+
+  const metadataManager = TokenMetadataManager.getInstance();
+  const [inputToken, outputToken] = await Promise.all([
+    metadataManager.getTokenMetadata(context.connection, routeInput.mint),
+    metadataManager.getTokenMetadata(context.connection, routeOutput.mint)
+  ]);
+
+  const swapHops: SwapHop[] = hops.map(hop => ({
+    programId: hop.programId,
+    programName: getProgramName(hop.programId),
+    inputMint: hop.input.mint,
+    inputAmount: formatUnits(hop.input.amount, hop.input.decimals),
+    outputMint: hop.output.mint,
+    outputAmount: formatUnits(hop.output.amount, hop.output.decimals)
+  }));
+
+  return {
+    protocol,
+    programId: context.tx.transaction.message.instructions[context.instructionIndex].programId.toBase58(),
+    instructionIndex: context.instructionIndex,
+    user,
+    inputMint: routeInput.mint,
+    inputSymbol: inputToken.symbol,
+    inputAmount,
+    outputMint: routeOutput.mint,
+    outputSymbol: outputToken.symbol,
+    outputAmount,
+    price: formatPrice(inputAmount, outputAmount),
+    hops: swapHops
+  };
+}
+
+export function toSwapActions(swap: SwapAction | null): ExtractedActions | null {
+  return swap ? { transfers: [], types: ['Swap'], swaps: [swap] } : null;
+}
+
+// Pool deposits, withdrawals and fee claims move tokens too, but are not trades
+export const LIQUIDITY_TYPES = ['Add Liquidity', 'Remove Liquidity', 'Collect Fees'] as const;
+export type LiquidityType = typeof LIQUIDITY_TYPES[number];
+
+export function toLiquidityActions(type: LiquidityType): ExtractedActions {
+  return { transfers: [], types: [type] };
+}
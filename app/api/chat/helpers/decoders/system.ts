@@ -0,0 +1,46 @@
+import { ParsedInstruction } from '@solana/web3.js';
+import { TRANSFERS } from '../../types';
+import { createLabelDecoder } from './common';
+import { ProgramDecoder } from './types';
+
+export const SYSTEM_PROGRAM_ID = '11111111111111111111111111111111';
+
+function parseSystemInstruction(instruction: ParsedInstruction): TRANSFERS | null {
+  if (instruction.parsed.type === 'transfer' || instruction.parsed.type === 'transferWithSeed') {
+    return {
+      tokenType: 'Native',
+      token: {
+        symbol: 'SOL',
+        decimals: 9
+      },
+      from: instruction.parsed.info.source || instruction.parsed.info.from,
+      to: instruction.parsed.info.destination || instruction.parsed.info.to,
+      value: (instruction.parsed.info.lamports / 1e9).toString()
+    };
+  }
+
+  return null;
+}
+
+export const systemDecoder: ProgramDecoder = {
+  ...createLabelDecoder(SYSTEM_PROGRAM_ID, 'System Program', {
+    'transfer': 'Transfer SOL',
+    'transferWithSeed': 'Transfer SOL with Seed',
+    'allocate': 'Allocate Space',
+    'allocateWithSeed': 'Allocate Space with Seed',
+    'assign': 'Assign Account',
+    'assignWithSeed': 'Assign Account with Seed',
+    'createAccount': 'Create Account',
+    'createAccountWithSeed': 'Create Account with Seed',
+    'advance_nonce_account': 'Advance Nonce Account',
+    'withdraw_nonce_account': 'Withdraw from Nonce Account',
+    'initialize_nonce_account': 'Initialize Nonce Account',
+    'authorize_nonce_account': 'Authorize Nonce Account'
+  }),
+  async extractActions(instruction) {
+    if (!('parsed' in instruction)) return null;
+
+    const transfer = parseSystemInstruction(instruction);
+    return transfer ? { transfers: [transfer], types: ['Native Transfer'] } : null;
+  }
+};
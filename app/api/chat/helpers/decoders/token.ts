@@ -0,0 +1,173 @@
+import { Connection, ParsedInstruction } from '@solana/web3.js';
+import { TokenMetadataManager } from '../tokensMetadataManager';
+import { calculateTransferFee, getEpochForSlot } from '../token2022Extensions';
+import { TokenInfo, TRANSFERS } from '../../types';
+import { createLabelDecoder } from './common';
+import { DecoderContext, ExtractedActions, ProgramDecoder } from './types';
+
+export const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const TRANSFER_TYPES = ['transfer', 'transferChecked', 'transferCheckedWithFee'];
+
+export const TOKEN_INSTRUCTIONS: Record<string, string> = {
+  'transfer': 'Transfer Tokens',
+  'transferChecked': 'Transfer Tokens (Checked)',
+  'mintTo': 'Mint Tokens',
+  'mintToChecked': 'Mint Tokens (Checked)',
+  'burn': 'Burn Tokens',
+  'burnChecked': 'Burn Tokens (Checked)',
+  'approve': 'Approve Token Delegation',
+  'revoke': 'Revoke Token Delegation',
+  'setAuthority': 'Set Authority',
+  'closeAccount': 'Close Token Account',
+  'freezeAccount': 'Freeze Account',
+  'thawAccount': 'Thaw Account',
+  'syncNative': 'Sync Native',
+  'initializeMint': 'Initialize Mint',
+  'initializeAccount': 'Initialize Token Account'
+};
+
+interface ParsedTokenAmount {
+  amount: string;
+  decimals?: number;
+  uiAmount?: number | null;
+  uiAmountString?: string;
+}
+
+// `info` of a parsed transfer, transferChecked or transferCheckedWithFee instruction
+interface ParsedTransferInfo {
+  source: string;
+  destination: string;
+  authority?: string;
+  mint?: string;
+  // transfer only, in raw units
+  amount?: string;
+  // Checked variants
+  tokenAmount?: ParsedTokenAmount;
+  // transferCheckedWithFee only
+  feeAmount?: ParsedTokenAmount;
+}
+
+// Withheld Token-2022 fee for this transfer in UI units, if the mint charges one
+function getTransferFee(info: ParsedTransferInfo, tokenMetadata: TokenInfo): string | undefined {
+  const decimals = tokenMetadata.decimals ?? info.tokenAmount?.decimals ?? 0;
+
+  if (info.feeAmount) {
+    return info.feeAmount.uiAmountString ?? (Number(info.feeAmount.amount) / Math.pow(10, decimals)).toString();
+  }
+  if (!tokenMetadata.extensions?.transferFee) {
+    return undefined;
+  }
+
+  const rawAmount = info.tokenAmount?.amount ?? info.amount;
+  if (rawAmount === undefined) {
+    return undefined;
+  }
+  const fee = calculateTransferFee(BigInt(rawAmount), tokenMetadata.extensions);
+  return (Number(fee) / Math.pow(10, decimals)).toString();
+}
+
+// `epoch` is the transaction's, so a Token-2022 fee change scheduled for later is not applied yet
+export async function parseTokenTransfer(
+  instruction: ParsedInstruction,
+  connection: Connection,
+  epoch?: number
+): Promise<TRANSFERS | null> {
+  const metadataManager = TokenMetadataManager.getInstance();
+  
+  if (TRANSFER_TYPES.includes(instruction.parsed.type)) {
+    const mintAddress = instruction.parsed.info.mint || instruction.parsed.info.token;
+    
+    // Get token metadata
+    const tokenMetadata = await metadataManager.getTokenMetadata(connection, mintAddress, 'SPL', epoch);
+
+    // Parse transfer details
+    let value = '0';
+    if (instruction.parsed.info.tokenAmount) {
+      value = instruction.parsed.info.tokenAmount.uiAmount.toString();
+    } else if (instruction.parsed.info.amount) {
+      value = (instruction.parsed.info.amount / Math.pow(10, tokenMetadata.decimals || 9)).toString();
+    }
+
+    return {
+      tokenType: 'SPL',
+      token: tokenMetadata,
+      from: instruction.parsed.info.authority || instruction.parsed.info.source,
+      to: instruction.parsed.info.destination,
+      value,
+      fee: getTransferFee(instruction.parsed.info, tokenMetadata)
+    };
+  }
+
+  return null;
+}
+
+export async function parseNFTTransfer(
+  instruction: ParsedInstruction,
+  connection: Connection
+): Promise<TRANSFERS | null> {
+  const metadataManager = TokenMetadataManager.getInstance();
+
+  if (TRANSFER_TYPES.includes(instruction.parsed.type)) {
+    // Check if this is an NFT by looking at decimals and amount
+    if (instruction.parsed.info.tokenAmount?.decimals === 0 && 
+        instruction.parsed.info.tokenAmount?.uiAmount === 1) {
+      
+      const tokenMetadata = await metadataManager.getTokenMetadata(
+        connection,
+        instruction.parsed.info.mint,
+        'NFT'
+      );
+
+      return {
+        tokenType: 'NFT',
+        token: tokenMetadata,
+        from: instruction.parsed.info.authority || instruction.parsed.info.source,
+        to: instruction.parsed.info.destination,
+        tokenId: instruction.parsed.info.mint // In Solana, mint address is the token ID
+      };
+    }
+  }
+
+  return null;
+}
+
+// Without the epoch schedule the current epoch's fee is used rather than failing the whole analysis
+async function getTransferEpoch(connection: Connection, slot: number): Promise<number | undefined> {
+  try {
+    return await getEpochForSlot(connection, slot);
+  } catch (error) {
+    console.warn('Error getting the epoch of the transaction:', error);
+    return undefined;
+  }
+}
+
+export async function extractTokenActions(
+  instruction: ParsedInstruction,
+  { connection, tx }: DecoderContext
+): Promise<ExtractedActions> {
+  const result: ExtractedActions = { transfers: [], types: [] };
+
+  const epoch = TRANSFER_TYPES.includes(instruction.parsed.type) ? await getTransferEpoch(connection, tx.slot) : undefined;
+  const tokenTransfer = await parseTokenTransfer(instruction, connection, epoch);
+  if (tokenTransfer) {
+    result.transfers.push(tokenTransfer);
+    result.types.push('Token Transfer');
+  }
+
+  const nftTransfer = await parseNFTTransfer(instruction, connection);
+  if (nftTransfer) {
+    result.transfers.push(nftTransfer);
+    result.types.push('NFT Transfer');
+  }
+
+  return result;
+}
+
+export const tokenDecoder: ProgramDecoder = {
+  ...createLabelDecoder(TOKEN_PROGRAM_ID, 'Token Program', TOKEN_INSTRUCTIONS),
+  async extractActions(instruction, context) {
+    if (!('parsed' in instruction)) return null;
+    return extractTokenActions(instruction, context);
+  }
+};
@@ -0,0 +1,34 @@
+import { TOKEN_2022_PROGRAM_ID } from '../token2022Extensions';
+import { createLabelDecoder } from './common';
+import { extractTokenActions, TOKEN_INSTRUCTIONS } from './token';
+import { ProgramDecoder } from './types';
+
+export { TOKEN_2022_PROGRAM_ID };
+
+// Token-2022 is a superset of the Token program; only extension instructions need new labels
+export const token2022Decoder: ProgramDecoder = {
+  ...createLabelDecoder(TOKEN_2022_PROGRAM_ID, 'Token-2022 Program', {
+    ...TOKEN_INSTRUCTIONS,
+    'transferCheckedWithFee': 'Transfer Tokens (With Fee)',
+    'initializeTransferFeeConfig': 'Initialize Transfer Fee',
+    'setTransferFee': 'Set Transfer Fee',
+    'withdrawWithheldTokensFromMint': 'Withdraw Withheld Fees from Mint',
+    'withdrawWithheldTokensFromAccounts': 'Withdraw Withheld Fees from Accounts',
+    'harvestWithheldTokensToMint': 'Harvest Withheld Fees to Mint',
+    'initializeTransferHook': 'Initialize Transfer Hook',
+    'updateTransferHook': 'Update Transfer Hook',
+    'initializePermanentDelegate': 'Initialize Permanent Delegate',
+    'initializeConfidentialTransferMint': 'Initialize Confidential Transfers',
+    'configureConfidentialTransferAccount': 'Configure Confidential Transfer Account',
+    'confidentialTransfer': 'Confidential Transfer',
+    'initializeMetadataPointer': 'Initialize Metadata Pointer',
+    'initializeTokenMetadata': 'Initialize Token Metadata',
+    'updateTokenMetadataField': 'Update Token Metadata',
+    'initializeNonTransferableMint': 'Initialize Non-Transferable Mint',
+    'initializeMintCloseAuthority': 'Initialize Mint Close Authority'
+  }),
+  async extractActions(instruction, context) {
+    if (!('parsed' in instruction)) return null;
+    return extractTokenActions(instruction, context);
+  }
+};
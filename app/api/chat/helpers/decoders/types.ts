@@ -0,0 +1,35 @@
+import {
+  Connection,
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction
+} from '@solana/web3.js';
+import { SwapAction, TRANSFERS } from '../../types';
+
+export type INSTRUCTION_TYPE = ParsedInstruction | PartiallyDecodedInstruction;
+
+export interface DecodedInstruction {
+  instructionName: string;
+  params: Record<string, unknown>;
+}
+
+export interface DecoderContext {
+  connection: Connection;
+  tx: ParsedTransactionWithMeta;
+  // Index of the top-level instruction being processed (inner instructions share it)
+  instructionIndex: number;
+}
+
+export interface ExtractedActions {
+  transfers: TRANSFERS[];
+  types: string[];
+  swaps?: SwapAction[];
+}
+
+export interface ProgramDecoder {
+  id: string;
+  name: string;
+  decodeInstruction(instruction: INSTRUCTION_TYPE, context?: DecoderContext): DecodedInstruction | Promise<DecodedInstruction>;
+  // Optional hook for programs that move value (transfers, swaps, mints...)
+  extractActions?(instruction: INSTRUCTION_TYPE, context: DecoderContext): Promise<ExtractedActions | null>;
+}
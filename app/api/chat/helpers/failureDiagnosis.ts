@@ -0,0 +1,186 @@
+import { Connection, ParsedTransactionWithMeta, TransactionError } from '@solana/web3.js';
+import { DecoderRegistry } from './decoders';
+import { IdlLoader } from './idlLoader';
+import {
+  ANCHOR_ERRORS,
+  ANCHOR_ERROR_OFFSET,
+  INSTRUCTION_ERRORS,
+  PROGRAM_ERROR_TABLES,
+  ProgramError,
+  TRANSACTION_ERRORS
+} from './programErrors';
+import { FailureDiagnosis, FailureErrorSource } from '../types';
+
+const INVOKE_LOG = /^Program (\w+) invoke \[(\d+)\]$/;
+const FAILED_LOG = /^Program (\w+) failed: (.*)$/;
+// Anchor logs the error it returns, e.g. "AnchorError occurred. Error Code: X. Error Number: 2006. Error Message: Y."
+const ANCHOR_ERROR_LOG = /AnchorError.*Error Code: (\w+)\. Error Number: (\d+)\. Error Message: (.*?)\.?$/;
+// Bookkeeping lines that say nothing about why the instruction failed
+const NOISE_LOG = /^Program \w+ (invoke \[\d+\]|success)$|^Program (data|return): /;
+const COMPUTE_LOG = /^Program \w+ consumed \d+ of \d+ compute units$/;
+const MAX_FAILURE_LOGS = 20;
+
+interface FailureLocation {
+  programId: string;
+  cpiDepth: number;
+  logs: string[];
+}
+
+interface ResolvedError extends ProgramError {
+  source: FailureErrorSource;
+}
+
+// Splits `{ Variant: payload }` / `'Variant'` errors into their variant name and payload
+function getVariant(error: unknown): [string, unknown] {
+  if (typeof error === 'string') return [error, undefined];
+  if (error && typeof error === 'object') {
+    const [variant] = Object.keys(error);
+    if (variant) return [variant, (error as Record<string, unknown>)[variant]];
+  }
+  return ['Unknown', undefined];
+}
+
+// Execution stops at the first failing instruction, so the first "failed" line belongs to the innermost
+// failing program; every caller up the CPI stack then logs its own "failed" line after it
+function locateFailure(logs: string[], includeComputeLogs: boolean): FailureLocation | null {
+  const depths = new Map<string, number>();
+  let segmentStart = 0;
+
+  for (let i = 0; i < logs.length; i++) {
+    const invoke = logs[i].match(INVOKE_LOG);
+    if (invoke) {
+      const depth = Number(invoke[2]);
+      depths.set(invoke[1], depth);
+      if (depth === 1) segmentStart = i;
+      continue;
+    }
+
+    const failed = logs[i].match(FAILED_LOG);
+    if (failed) {
+      const relevant = logs.slice(segmentStart).filter(line =>
+        !NOISE_LOG.test(line) && (includeComputeLogs || !COMPUTE_LOG.test(line))
+      );
+      return {
+        programId: failed[1],
+        cpiDepth: depths.get(failed[1]) ?? 1,
+        logs: relevant.slice(-MAX_FAILURE_LOGS)
+      };
+    }
+  }
+
+  return null;
+}
+
+async function resolveCustomError(
+  connection: Connection,
+  programId: string,
+  code: number,
+  logs: string[]
+): Promise<ResolvedError> {
+  const table = PROGRAM_ERROR_TABLES[programId];
+  if (table?.errors[code]) {
+    return { ...table.errors[code], source: table.source };
+  }
+
+  let idlError: ResolvedError | null = null;
+  let isAnchorProgram = false;
+  try {
+    const idl = await IdlLoader.getInstance().getIdl(connection, programId);
+    if (idl) {
+      isAnchorProgram = true;
+      const error = idl.errors?.find(e => e.code === code);
+      if (error) idlError = { name: error.name, message: error.msg || error.name, source: 'IDL' };
+    }
+  } catch (error) {
+    console.warn(`Error loading IDL for ${programId}:`, error);
+  }
+  if (idlError) return idlError;
+
+  const anchorLog = logs.map(line => line.match(ANCHOR_ERROR_LOG)).find(match => match && Number(match[2]) === code);
+  // Anchor's framework codes sit below 6000; only trust them for programs known to be built with Anchor
+  if (code < ANCHOR_ERROR_OFFSET && ANCHOR_ERRORS[code] && (isAnchorProgram || anchorLog)) {
+    return { ...ANCHOR_ERRORS[code], source: 'Anchor' };
+  }
+  if (anchorLog) {
+    return { name: anchorLog[1], message: anchorLog[3], source: 'Program Log' };
+  }
+
+  return {
+    name: `Custom(${code})`,
+    message: `Program returned custom error ${code} (0x${code.toString(16)})`,
+    source: 'Unknown'
+  };
+}
+
+// Explains why a transaction failed: which instruction and (possibly nested) program failed,
+// what its error code means and the log lines around it. Returns null for successful transactions.
+export async function diagnoseFailure(
+  connection: Connection,
+  tx: ParsedTransactionWithMeta
+): Promise<FailureDiagnosis | null> {
+  const err: TransactionError | null | undefined = tx.meta?.err;
+  if (!err) return null;
+
+  const logs = tx.meta?.logMessages || [];
+  const [variant, payload] = getVariant(err);
+  const registry = DecoderRegistry.getInstance();
+  const getProgramName = (programId: string) => registry.has(programId) ? registry.getDecoder(programId).name : undefined;
+
+  if (variant !== 'InstructionError' || !Array.isArray(payload)) {
+    let message = TRANSACTION_ERRORS[variant] || variant;
+    // e.g. { InsufficientFundsForRent: { account_index: 2 } }
+    const accountIndex = (payload as { account_index?: number } | undefined)?.account_index;
+    const account = accountIndex !== undefined ? tx.transaction.message.accountKeys[accountIndex] : undefined;
+    if (account) message += ` (account ${account.pubkey.toBase58()})`;
+
+    return {
+      error: JSON.stringify(err),
+      errorType: 'TransactionError',
+      instructionIndex: null,
+      programId: null,
+      cpiDepth: null,
+      code: null,
+      errorName: variant,
+      message,
+      source: 'Runtime',
+      logs: logs.slice(-MAX_FAILURE_LOGS)
+    };
+  }
+
+  const [instructionIndex, instructionError] = payload as [number, unknown];
+  const [errorName, errorDetail] = getVariant(instructionError);
+  const location = locateFailure(logs, errorName === 'ComputationalBudgetExceeded');
+  // Without a "failed" log line (e.g. truncated logs) blame the top-level instruction's program
+  const topLevel = tx.transaction.message.instructions[instructionIndex];
+  const programId = location?.programId ?? topLevel?.programId.toBase58() ?? null;
+  const failureLogs = location?.logs ?? [];
+
+  const diagnosis: FailureDiagnosis = {
+    error: JSON.stringify(err),
+    errorType: 'InstructionError',
+    instructionIndex,
+    programId,
+    programName: programId ? getProgramName(programId) : undefined,
+    cpiDepth: location?.cpiDepth ?? null,
+    code: null,
+    errorName,
+    message: INSTRUCTION_ERRORS[errorName] || errorName,
+    source: 'Runtime',
+    logs: failureLogs
+  };
+
+  if (errorName === 'Custom' && typeof errorDetail === 'number') {
+    const resolved = programId
+      ? await resolveCustomError(connection, programId, errorDetail, failureLogs)
+      : { name: `Custom(${errorDetail})`, message: `Custom error ${errorDetail}`, source: 'Unknown' as const };
+    diagnosis.code = errorDetail;
+    diagnosis.errorName = resolved.name;
+    diagnosis.message = resolved.message;
+    diagnosis.source = resolved.source;
+  } else if (typeof errorDetail === 'string') {
+    // e.g. { BorshIoError: "Unknown" }
+    diagnosis.message = `${diagnosis.message}: ${errorDetail}`;
+  }
+
+  return diagnosis;
+}
@@ -0,0 +1,76 @@
+import { ParsedTransactionWithMeta } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { formatUnits } from './index';
+import { COMPUTE_BUDGET_PROGRAM_ID, decodeComputeBudgetData } from './decoders/computeBudget';
+import { CostAnalysis } from '../types';
+
+export const LAMPORTS_PER_SIGNATURE = 5000;
+export const DEFAULT_INSTRUCTION_COMPUTE_UNIT_LIMIT = 200000;
+export const MAX_COMPUTE_UNIT_LIMIT = 1400000;
+const MICRO_LAMPORTS_PER_LAMPORT = BigInt(1000000);
+
+// Exact fee breakdown from the transaction's Compute Budget instructions
+export function analyzeFees(tx: ParsedTransactionWithMeta): CostAnalysis {
+  const instructions = tx.transaction.message.instructions;
+  let computeUnitLimit: number | undefined;
+  let computeUnitPrice = BigInt(0);
+  let heapFrameBytes: number | undefined;
+  let loadedAccountsDataSizeLimit: number | undefined;
+
+  for (const instruction of instructions) {
+    if (instruction.programId.toBase58() !== COMPUTE_BUDGET_PROGRAM_ID || 'parsed' in instruction) continue;
+
+    const decoded = decodeComputeBudgetData(bs58.decode(instruction.data));
+    switch (decoded?.type) {
+      case 'setComputeUnitLimit':
+      case 'requestUnits':
+        computeUnitLimit = decoded.units;
+        break;
+      case 'setComputeUnitPrice':
+        computeUnitPrice = BigInt(decoded.microLamports as string);
+        break;
+      case 'requestHeapFrame':
+        heapFrameBytes = decoded.bytes;
+        break;
+      case 'setLoadedAccountsDataSizeLimit':
+        loadedAccountsDataSizeLimit = decoded.bytes;
+        break;
+    }
+  }
+
+  // Without an explicit limit the runtime grants 200k CU per non-compute-budget instruction
+  const computeUnitLimitSource = computeUnitLimit === undefined ? 'default' : 'instruction';
+  if (computeUnitLimit === undefined) {
+    const billableInstructions = instructions.filter(
+      ix => ix.programId.toBase58() !== COMPUTE_BUDGET_PROGRAM_ID
+    ).length;
+    computeUnitLimit = billableInstructions * DEFAULT_INSTRUCTION_COMPUTE_UNIT_LIMIT;
+  }
+  computeUnitLimit = Math.min(computeUnitLimit, MAX_COMPUTE_UNIT_LIMIT);
+
+  // Priority fee is charged on the requested limit, not on consumption, rounded up
+  const priorityFee = (computeUnitPrice * BigInt(computeUnitLimit) + MICRO_LAMPORTS_PER_LAMPORT - BigInt(1))
+    / MICRO_LAMPORTS_PER_LAMPORT;
+  const baseFee = BigInt(tx.transaction.signatures.length * LAMPORTS_PER_SIGNATURE);
+  const totalFee = BigInt(tx.meta?.fee ?? 0);
+
+  const consumed = tx.meta?.computeUnitsConsumed;
+  const unused = consumed === undefined ? null : Math.max(computeUnitLimit - consumed, 0);
+
+  return {
+    baseFeeLamports: baseFee.toString(),
+    priorityFeeLamports: priorityFee.toString(),
+    totalFeeLamports: totalFee.toString(),
+    totalFeeSol: formatUnits(totalFee, 9),
+    computeUnitPrice: computeUnitPrice.toString(),
+    computeUnitLimit,
+    computeUnitLimitSource,
+    computeUnitsConsumed: consumed ?? null,
+    unusedComputeUnits: unused,
+    unusedComputeUnitsPercent: unused === null || computeUnitLimit === 0
+      ? null
+      : Math.round((unused / computeUnitLimit) * 10000) / 100,
+    heapFrameBytes,
+    loadedAccountsDataSizeLimit
+  };
+}
@@ -0,0 +1,200 @@
+import {
+  AddressLabel,
+  FLOW_DIAGRAM_PART,
+  FlowDiagram,
+  NATIVE_SOL_MINT,
+  TransactionAnalysis
+} from '../types';
+
+// Beyond this the chart stops being readable; the rest is still in the analysis
+const MAX_EDGES = 40;
+const HUB_NODE = 'tx';
+
+interface Edge {
+  from: string;
+  to: string;
+  label: string;
+}
+
+function shorten(address: string): string {
+  return address.length > 12 ? `${address.slice(0, 4)}...${address.slice(-4)}` : address;
+}
+
+// Mermaid labels are quoted; quotes inside them must be entities
+function escapeLabel(text: string): string {
+  return text.replace(/"/g, '#quot;');
+}
+
+function stripSign(amount: string): string {
+  return amount.startsWith('-') ? amount.slice(1) : amount;
+}
+
+class FlowGraph {
+  private nodes = new Map<string, { id: string; label: string; kind: 'wallet' | 'program' | 'hub'; scam: boolean }>();
+  private edges: Edge[] = [];
+  private edgeKeys = new Set<string>();
+  truncated = false;
+
+  constructor(
+    private readonly labels: Map<string, AddressLabel>,
+    private readonly programNames: Map<string, string>,
+    private readonly feePayer: string
+  ) {}
+
+  node(address: string, kind: 'wallet' | 'program' | 'hub' = 'wallet'): string {
+    const existing = this.nodes.get(address);
+    if (existing) return existing.id;
+
+    const label = this.labels.get(address);
+    const name = kind === 'hub'
+      ? 'Transaction'
+      : label?.name || this.programNames.get(address) || shorten(address);
+    const text = address === this.feePayer ? `Fee payer<br/>${name}` : name;
+    const id = kind === 'hub' ? HUB_NODE : `n${this.nodes.size}`;
+
+    this.nodes.set(address, { id, label: text, kind, scam: label?.category === 'scam' });
+    return id;
+  }
+
+  edge(from: string, to: string, label: string) {
+    if (from === to) return;
+    const key = `${from}|${to}|${label}`;
+    if (this.edgeKeys.has(key)) return;
+    if (this.edges.length >= MAX_EDGES) {
+      this.truncated = true;
+      return;
+    }
+    this.edgeKeys.add(key);
+    this.edges.push({ from, to, label });
+  }
+
+  get nodeCount() {
+    return this.nodes.size;
+  }
+
+  get edgeCount() {
+    return this.edges.length;
+  }
+
+  render(subgraphs: { title: string; members: string[] }[]): string {
+    const lines = ['flowchart LR'];
+    const grouped = new Set(subgraphs.flatMap(subgraph => subgraph.members));
+
+    const nodeLine = (node: { id: string; label: string; kind: string }) => {
+      const label = `"${escapeLabel(node.label)}"`;
+      if (node.kind === 'program') return `${node.id}[[${label}]]`;
+      if (node.kind === 'hub') return `${node.id}((${label}))`;
+      return `${node.id}[${label}]`;
+    };
+
+    const nodes = Array.from(this.nodes.values());
+    nodes.filter(node => !grouped.has(node.id)).forEach(node => lines.push(`  ${nodeLine(node)}`));
+    subgraphs.forEach((subgraph, i) => {
+      lines.push(`  subgraph s${i} ["${escapeLabel(subgraph.title)}"]`);
+      nodes.filter(node => subgraph.members.includes(node.id)).forEach(node => lines.push(`    ${nodeLine(node)}`));
+      lines.push('  end');
+    });
+
+    this.edges.forEach(edge => lines.push(`  ${edge.from} -->|"${escapeLabel(edge.label)}"| ${edge.to}`));
+
+    lines.push('  classDef program fill:#eef2ff,stroke:#6366f1');
+    lines.push('  classDef scam fill:#fee2e2,stroke:#dc2626,color:#991b1b');
+    const programs = nodes.filter(node => node.kind === 'program').map(node => node.id);
+    const scams = nodes.filter(node => node.scam).map(node => node.id);
+    if (programs.length) lines.push(`  class ${programs.join(',')} program`);
+    if (scams.length) lines.push(`  class ${scams.join(',')} scam`);
+
+    return lines.join('\n');
+  }
+}
+
+// Builds the transfer flow chart: wallets and programs as nodes, amounts with mint symbols on edges.
+// Swaps are drawn hop by hop; when no transfer was decoded, net balance changes stand in for them.
+export function buildFlowDiagram(analysis: TransactionAnalysis): FlowDiagram {
+  const labels = new Map<string, AddressLabel>();
+  analysis.accounts.forEach(account => account.label && labels.set(account.address, account.label));
+  analysis.programs.forEach(program => program.label && labels.set(program.programId, program.label));
+  analysis.transfers.forEach(transfer => {
+    if (transfer.fromLabel) labels.set(transfer.from, transfer.fromLabel);
+    if (transfer.toLabel) labels.set(transfer.to, transfer.toLabel);
+  });
+
+  const programNames = new Map<string, string>();
+  analysis.programs.forEach(program => program.programName && programNames.set(program.programId, program.programName));
+  analysis.swaps.forEach(swap => swap.hops.forEach(hop => programNames.set(hop.programId, hop.programName)));
+
+  const symbols = new Map<string, string>([[NATIVE_SOL_MINT, 'SOL']]);
+  analysis.transfers.forEach(transfer => {
+    const { address, symbol } = transfer.token;
+    if (address && symbol) symbols.set(address, symbol);
+  });
+  analysis.swaps.forEach(swap => {
+    if (swap.inputSymbol) symbols.set(swap.inputMint, swap.inputSymbol);
+    if (swap.outputSymbol) symbols.set(swap.outputMint, swap.outputSymbol);
+  });
+  const symbolOf = (mint: string) => symbols.get(mint) || shorten(mint);
+
+  // Token transfers name the destination token account; draw its owning wallet instead
+  const owners = new Map<string, string>();
+  analysis.balanceChanges.accounts.forEach(change => owners.set(change.account, change.owner));
+  const ownerOf = (address: string) => owners.get(address) || address;
+
+  const graph = new FlowGraph(labels, programNames, analysis.transaction.feePayer);
+  const subgraphs: { title: string; members: string[] }[] = [];
+
+  for (const transfer of analysis.transfers) {
+    const symbol = transfer.tokenType === 'Native' ? 'SOL' : transfer.token.symbol || shorten(transfer.token.address || '');
+    const amount = transfer.tokenType === 'NFT'
+      ? `NFT ${transfer.token.name || symbol}`
+      : `${transfer.value ?? ''} ${symbol}`.trim();
+    graph.edge(graph.node(ownerOf(transfer.from)), graph.node(ownerOf(transfer.to)), amount);
+  }
+
+  analysis.swaps.forEach((swap, i) => {
+    const user = graph.node(swap.user);
+    const hops = swap.hops.length > 0
+      ? swap.hops
+      : [{ ...swap, programName: swap.protocol }];
+    const members = hops.map(hop => graph.node(hop.programId, 'program'));
+    subgraphs.push({ title: `Swap ${i + 1}: ${swap.protocol}`, members });
+
+    graph.edge(user, members[0], `${hops[0].inputAmount} ${symbolOf(hops[0].inputMint)}`);
+    for (let hop = 0; hop < hops.length - 1; hop++) {
+      graph.edge(members[hop], members[hop + 1], `${hops[hop].outputAmount} ${symbolOf(hops[hop].outputMint)}`);
+    }
+    const last = hops[hops.length - 1];
+    graph.edge(members[members.length - 1], user, `${last.outputAmount} ${symbolOf(last.outputMint)}`);
+  });
+
+  // Net flows per mint; pairing senders with receivers is only exact when one side is a single owner
+  if (analysis.transfers.length === 0 && analysis.swaps.length === 0) {
+    const mints = Array.from(new Set(analysis.balanceChanges.owners.map(change => change.mint)));
+    for (const mint of mints) {
+      const changes = analysis.balanceChanges.owners.filter(change => change.mint === mint);
+      const senders = changes.filter(change => change.rawChange.startsWith('-'));
+      const receivers = changes.filter(change => !change.rawChange.startsWith('-'));
+      if (!senders.length || !receivers.length) continue;
+
+      const label = (amount: string) => `${stripSign(amount)} ${symbolOf(mint)}`;
+      if (senders.length === 1) {
+        receivers.forEach(r => graph.edge(graph.node(senders[0].owner), graph.node(r.owner), label(r.change)));
+      } else if (receivers.length === 1) {
+        senders.forEach(s => graph.edge(graph.node(s.owner), graph.node(receivers[0].owner), label(s.change)));
+      } else {
+        const hub = graph.node(HUB_NODE, 'hub');
+        senders.forEach(s => graph.edge(graph.node(s.owner), hub, label(s.change)));
+        receivers.forEach(r => graph.edge(hub, graph.node(r.owner), label(r.change)));
+      }
+    }
+  }
+
+  return {
+    type: FLOW_DIAGRAM_PART,
+    signature: analysis.transaction.signature,
+    cluster: analysis.network.cluster,
+    mermaid: graph.render(subgraphs),
+    nodeCount: graph.nodeCount,
+    edgeCount: graph.edgeCount,
+    truncated: graph.truncated
+  };
+}
@@ -0,0 +1,154 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { inflateSync } from 'zlib';
+import { CacheManager, DEFAULT_CACHE_TTL_MS, cacheKey } from './cache';
+
+// Both the legacy (< 0.30) and the current Anchor IDL specs are accepted
+export type IdlType =
+  | string
+  | { option: IdlType }
+  | { coption: IdlType }
+  | { vec: IdlType }
+  | { array: [IdlType, number] }
+  | { defined: string | { name: string } };
+
+export interface IdlField {
+  name: string;
+  type: IdlType;
+}
+
+export interface IdlAccountItem {
+  name: string;
+  isMut?: boolean;
+  isSigner?: boolean;
+  writable?: boolean;
+  signer?: boolean;
+  accounts?: IdlAccountItem[];
+}
+
+export interface IdlInstruction {
+  name: string;
+  discriminator?: number[];
+  accounts: IdlAccountItem[];
+  args: IdlField[];
+}
+
+export interface IdlTypeDef {
+  name: string;
+  type:
+    | { kind: 'struct'; fields?: (IdlField | IdlType)[] }
+    | { kind: 'enum'; variants: { name: string; fields?: (IdlField | IdlType)[] }[] }
+    | { kind: 'type'; alias: IdlType };
+}
+
+export interface IdlEvent {
+  name: string;
+  discriminator?: number[];
+  fields?: IdlField[];
+}
+
+export interface IdlErrorCode {
+  code: number;
+  name: string;
+  msg?: string;
+}
+
+export interface AnchorIdl {
+  address?: string;
+  name?: string;
+  metadata?: { name?: string; address?: string };
+  instructions: IdlInstruction[];
+  types?: IdlTypeDef[];
+  events?: IdlEvent[];
+  errors?: IdlErrorCode[];
+}
+
+const IDL_SEED = 'anchor:idl';
+
+// Loads Anchor IDLs from a local directory first, then from the program's on-chain IDL account
+export class IdlLoader {
+  private static instance: IdlLoader;
+  private localIdls: Promise<Map<string, AnchorIdl>> | null = null;
+  private readonly idlDir = process.env.ANCHOR_IDL_DIR || path.join(process.cwd(), 'idls');
+
+  private constructor() {}
+
+  static getInstance(): IdlLoader {
+    if (!IdlLoader.instance) {
+      IdlLoader.instance = new IdlLoader();
+    }
+    return IdlLoader.instance;
+  }
+
+  // Files are keyed by the address embedded in the IDL, or by `<programId>.json`
+  private async loadLocalIdls(): Promise<Map<string, AnchorIdl>> {
+    const idls = new Map<string, AnchorIdl>();
+
+    try {
+      const files = await fs.readdir(this.idlDir);
+      for (const file of files.filter(f => f.endsWith('.json'))) {
+        try {
+          const idl = JSON.parse(await fs.readFile(path.join(this.idlDir, file), 'utf8')) as AnchorIdl;
+          const address = idl.address || idl.metadata?.address || path.basename(file, '.json');
+          idls.set(address, idl);
+        } catch (error) {
+          console.warn(`Invalid IDL file ${file}:`, error);
+        }
+      }
+    } catch (error) {
+      console.warn(`IDL directory ${this.idlDir} not readable:`, (error as Error).message);
+    }
+
+    return idls;
+  }
+
+  private async getLocalIdl(programId: string): Promise<AnchorIdl | null> {
+    if (!this.localIdls) {
+      this.localIdls = this.loadLocalIdls();
+    }
+    return (await this.localIdls).get(programId) || null;
+  }
+
+  private async fetchOnChainIdl(connection: Connection, programId: string): Promise<AnchorIdl | null> {
+    try {
+      const program = new PublicKey(programId);
+      const [base] = PublicKey.findProgramAddressSync([], program);
+      const idlAddress = await PublicKey.createWithSeed(base, IDL_SEED, program);
+
+      const account = await connection.getAccountInfo(idlAddress);
+      if (!account) {
+        return null;
+      }
+
+      // Layout: 8-byte discriminator, 32-byte authority, u32 length, zlib-deflated JSON
+      const view = new DataView(account.data.buffer, account.data.byteOffset, account.data.byteLength);
+      const dataLength = view.getUint32(40, true);
+      const compressed = account.data.subarray(44, 44 + dataLength);
+
+      return JSON.parse(inflateSync(compressed).toString('utf8')) as AnchorIdl;
+    } catch (error) {
+      console.warn(`Error fetching on-chain IDL for ${programId}:`, error);
+      return null;
+    }
+  }
+
+  async getIdl(connection: Connection | undefined, programId: string): Promise<AnchorIdl | null> {
+    const localIdl = await this.getLocalIdl(programId);
+    if (localIdl || !connection) {
+      return localIdl;
+    }
+
+    // Program IDs can differ between clusters, so on-chain lookups are cached per endpoint;
+    // IDL accounts can be upgraded, so only for DEFAULT_CACHE_TTL_MS
+    return CacheManager.getInstance().getOrLoad(
+      cacheKey('idl', connection, programId),
+      () => this.fetchOnChainIdl(connection, programId),
+      DEFAULT_CACHE_TTL_MS
+    );
+  }
+
+  clearCache() {
+    this.localIdls = null;
+  }
+}
@@ -21,4 +21,28 @@ export function serializeBigInts(obj: any): any {
   
     return obj;
   }
-  
\ No newline at end of file
+  
+// Formats a raw integer amount with the given decimals, keeping the sign and full precision
+export function formatUnits(raw: bigint, decimals: number): string {
+  const negative = raw < BigInt(0);
+  const digits = (negative ? -raw : raw).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = decimals > 0 ? digits.slice(-decimals).replace(/0+$/, '') : '';
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
+
+// Runs `task` over `items` with at most `limit` in flight; results keep the input order
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,173 @@
+import { ParsedInstruction, PartiallyDecodedInstruction, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { BorshReader } from './decoders/borsh';
+import { SYSTEM_PROGRAM_ID } from './decoders/system';
+import { TOKEN_PROGRAM_ID } from './decoders/token';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './decoders/associatedToken';
+import { TOKEN_2022_PROGRAM_ID } from './token2022Extensions';
+import { formatUnits } from './index';
+import { INSTRUCTION_TYPE } from './decoders';
+
+type ParsedInfo = { type: string; info: Record<string, unknown> };
+
+// SetAuthority types in spl-token order; Token-2022 appends its extension authorities
+const AUTHORITY_TYPES = [
+  'mintTokens', 'freezeAccount', 'accountOwner', 'closeAccount', 'transferFeeConfig', 'withheldWithdraw',
+  'closeMint', 'interestRate', 'permanentDelegate', 'confidentialTransferMint', 'transferHookProgramId',
+  'confidentialTransferFeeConfig', 'metadataPointer', 'groupPointer', 'groupMemberPointer', 'scaledUiAmount', 'pause'
+];
+
+function tokenAmount(amount: bigint, decimals: number) {
+  const uiAmountString = formatUnits(amount, decimals);
+  return { amount: amount.toString(), decimals, uiAmount: Number(uiAmountString), uiAmountString };
+}
+
+function parseSystem(reader: BorshReader, accounts: string[]): ParsedInfo | null {
+  switch (reader.u32()) {
+    case 0:
+      return {
+        type: 'createAccount',
+        info: {
+          source: accounts[0],
+          newAccount: accounts[1],
+          lamports: Number(reader.u64()),
+          space: Number(reader.u64()),
+          owner: reader.publicKey()
+        }
+      };
+    case 1:
+      return { type: 'assign', info: { account: accounts[0], owner: reader.publicKey() } };
+    case 2:
+      return { type: 'transfer', info: { source: accounts[0], destination: accounts[1], lamports: Number(reader.u64()) } };
+    case 8:
+      return { type: 'allocate', info: { account: accounts[0], space: Number(reader.u64()) } };
+    default:
+      return null;
+  }
+}
+
+function parseToken(reader: BorshReader, accounts: string[]): ParsedInfo | null {
+  switch (reader.u8()) {
+    case 3:
+      return {
+        type: 'transfer',
+        info: { source: accounts[0], destination: accounts[1], authority: accounts[2], amount: reader.u64().toString() }
+      };
+    case 4:
+      return {
+        type: 'approve',
+        info: { source: accounts[0], delegate: accounts[1], owner: accounts[2], amount: reader.u64().toString() }
+      };
+    case 5:
+      return { type: 'revoke', info: { source: accounts[0], owner: accounts[1] } };
+    case 6: {
+      const authorityType = AUTHORITY_TYPES[reader.u8()] || 'unknown';
+      const newAuthority = reader.u8() === 1 ? reader.publicKey() : null;
+      // The RPC names the target `account` for token account authorities and `mint` otherwise
+      const target = ['accountOwner', 'closeAccount'].includes(authorityType) ? 'account' : 'mint';
+      return {
+        type: 'setAuthority',
+        info: { [target]: accounts[0], authorityType, newAuthority, authority: accounts[1] }
+      };
+    }
+    case 7:
+      return {
+        type: 'mintTo',
+        info: { mint: accounts[0], account: accounts[1], mintAuthority: accounts[2], amount: reader.u64().toString() }
+      };
+    case 8:
+      return {
+        type: 'burn',
+        info: { account: accounts[0], mint: accounts[1], authority: accounts[2], amount: reader.u64().toString() }
+      };
+    case 9:
+      return { type: 'closeAccount', info: { account: accounts[0], destination: accounts[1], owner: accounts[2] } };
+    case 12: {
+      const amount = reader.u64();
+      return {
+        type: 'transferChecked',
+        info: {
+          source: accounts[0],
+          mint: accounts[1],
+          destination: accounts[2],
+          authority: accounts[3],
+          tokenAmount: tokenAmount(amount, reader.u8())
+        }
+      };
+    }
+    case 13: {
+      const amount = reader.u64();
+      return {
+        type: 'approveChecked',
+        info: {
+          source: accounts[0],
+          mint: accounts[1],
+          delegate: accounts[2],
+          owner: accounts[3],
+          tokenAmount: tokenAmount(amount, reader.u8())
+        }
+      };
+    }
+    case 14: {
+      const amount = reader.u64();
+      return {
+        type: 'mintToChecked',
+        info: { mint: accounts[0], account: accounts[1], mintAuthority: accounts[2], tokenAmount: tokenAmount(amount, reader.u8()) }
+      };
+    }
+    case 15: {
+      const amount = reader.u64();
+      return {
+        type: 'burnChecked',
+        info: { account: accounts[0], mint: accounts[1], authority: accounts[2], tokenAmount: tokenAmount(amount, reader.u8()) }
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function parseAssociatedToken(data: Uint8Array, accounts: string[]): ParsedInfo | null {
+  const tag = data.length === 0 ? 0 : data[0];
+  if (tag > 1) return null;
+
+  return {
+    type: tag === 0 ? 'create' : 'createIdempotent',
+    info: {
+      source: accounts[0],
+      account: accounts[1],
+      wallet: accounts[2],
+      mint: accounts[3],
+      systemProgram: accounts[4],
+      tokenProgram: accounts[5]
+    }
+  };
+}
+
+const PARSERS: Record<string, { program: string; parse: (data: Uint8Array, accounts: string[]) => ParsedInfo | null }> = {
+  [SYSTEM_PROGRAM_ID]: { program: 'system', parse: (data, accounts) => parseSystem(new BorshReader(data), accounts) },
+  [TOKEN_PROGRAM_ID]: { program: 'spl-token', parse: (data, accounts) => parseToken(new BorshReader(data), accounts) },
+  [TOKEN_2022_PROGRAM_ID]: { program: 'spl-token-2022', parse: (data, accounts) => parseToken(new BorshReader(data), accounts) },
+  [ASSOCIATED_TOKEN_PROGRAM_ID]: { program: 'spl-associated-token-account', parse: parseAssociatedToken }
+};
+
+// Local stand-in for the RPC's jsonParsed encoding, for instructions that never went through
+// getParsedTransaction (e.g. simulated ones). Covers the System, Token and ATA instructions the
+// decoders and risk rules rely on; everything else is returned partially decoded.
+export function parseCompiledInstruction(programId: PublicKey, accounts: PublicKey[], data: Uint8Array): INSTRUCTION_TYPE {
+  const parser = PARSERS[programId.toBase58()];
+  const addresses = accounts.map(account => account.toBase58());
+
+  if (parser) {
+    try {
+      const parsed = parser.parse(data, addresses);
+      if (parsed) {
+        return { programId, program: parser.program, parsed } as ParsedInstruction;
+      }
+    } catch (error) {
+      console.warn(`Could not parse ${parser.program} instruction:`, error);
+    }
+  }
+
+  return { programId, accounts, data: bs58.encode(data) } as PartiallyDecodedInstruction;
+}
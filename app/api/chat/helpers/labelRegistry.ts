@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { ADDRESS_LABEL_CATEGORIES, AddressLabel } from '../types';
+
+const LabelEntrySchema = z.object({
+  address: z.string(),
+  name: z.string(),
+  category: z.enum(ADDRESS_LABEL_CATEGORIES),
+});
+
+// A labels file is either a bare array of entries or `{ "labels": [...] }`
+const LabelFileSchema = z.union([
+  z.array(z.unknown()),
+  z.object({ labels: z.array(z.unknown()) }).transform(file => file.labels),
+]);
+
+// Address labels (exchanges, protocol vaults, treasuries, known drainers) from local JSON files
+export class LabelRegistry {
+  private static instance: LabelRegistry;
+  private labels: Promise<Map<string, AddressLabel>> | null = null;
+  private readonly labelsDir = process.env.ADDRESS_LABELS_DIR || path.join(process.cwd(), 'labels');
+
+  private constructor() {}
+
+  static getInstance(): LabelRegistry {
+    if (!LabelRegistry.instance) {
+      LabelRegistry.instance = new LabelRegistry();
+    }
+    return LabelRegistry.instance;
+  }
+
+  // Files are read in name order; a later file overrides an earlier label for the same address
+  private async loadLabels(): Promise<Map<string, AddressLabel>> {
+    const labels = new Map<string, AddressLabel>();
+
+    try {
+      const files = (await fs.readdir(this.labelsDir)).filter(f => f.endsWith('.json')).sort();
+      for (const file of files) {
+        try {
+          const entries = LabelFileSchema.parse(JSON.parse(await fs.readFile(path.join(this.labelsDir, file), 'utf8')));
+          for (const entry of entries) {
+            const parsed = LabelEntrySchema.safeParse(entry);
+            if (!parsed.success) {
+              console.warn(`Invalid label entry in ${file}:`, entry);
+              continue;
+            }
+            const { address, name, category } = parsed.data;
+            labels.set(address, { name, category, source: file });
+          }
+        } catch (error) {
+          console.warn(`Invalid labels file ${file}:`, error);
+        }
+      }
+    } catch (error) {
+      console.warn(`Labels directory ${this.labelsDir} not readable:`, (error as Error).message);
+    }
+
+    return labels;
+  }
+
+  private getAll(): Promise<Map<string, AddressLabel>> {
+    if (!this.labels) {
+      this.labels = this.loadLabels();
+    }
+    return this.labels;
+  }
+
+  async getLabel(address: string): Promise<AddressLabel | undefined> {
+    return (await this.getAll()).get(address);
+  }
+
+  // Labels for the given addresses; unlabelled ones are left out
+  async getLabels(addresses: string[]): Promise<Map<string, AddressLabel>> {
+    const all = await this.getAll();
+    const labels = new Map<string, AddressLabel>();
+    addresses.forEach(address => {
+      const label = all.get(address);
+      if (label) labels.set(address, label);
+    });
+    return labels;
+  }
+
+  // Re-read the labels directory on next lookup
+  reload() {
+    this.labels = null;
+  }
+}
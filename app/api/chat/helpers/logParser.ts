@@ -0,0 +1,236 @@
+import { Connection, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { DecoderRegistry } from './decoders';
+import { decodeAnchorEvent } from './decoders/anchor';
+import { IdlLoader } from './idlLoader';
+import { InstructionDetail, InvocationNode, InvocationStatus, ProgramEvent } from '../types';
+
+const INVOKE_LOG = /^Program (\w+) invoke \[(\d+)\]$/;
+const CONSUMED_LOG = /^Program (\w+) consumed (\d+) of (\d+) compute units$/;
+const SUCCESS_LOG = /^Program (\w+) success$/;
+const FAILED_LOG = /^Program (\w+) failed: (.*)$/;
+const RETURN_LOG = /^Program return: (\w+) (.*)$/;
+const PROGRAM_LOG_PREFIX = 'Program log: ';
+const PROGRAM_DATA_PREFIX = 'Program data: ';
+// Newer runtimes log the remaining CU budget after each syscall-heavy step; it adds nothing per node
+const CONSUMPTION_LOG = /^Program consumption: /;
+const TRUNCATED_LOG = 'Log truncated';
+
+// A node as recovered from the logs alone, before it is matched to its instruction
+export interface LoggedInvocation {
+  programId: string;
+  depth: number;
+  status: InvocationStatus;
+  error?: string;
+  computeUnitsConsumed: number | null;
+  computeUnitsLimit: number | null;
+  logs: string[];
+  events: ProgramEvent[];
+  returnData?: string;
+  children: LoggedInvocation[];
+}
+
+// Rebuilds the invoke tree from `meta.logMessages`; one root per logged top-level instruction
+export function parseProgramLogs(logs: string[]): LoggedInvocation[] {
+  const roots: LoggedInvocation[] = [];
+  const stack: LoggedInvocation[] = [];
+
+  for (const line of logs) {
+    if (line === TRUNCATED_LOG) break;
+    const current = stack[stack.length - 1];
+
+    const invoke = line.match(INVOKE_LOG);
+    if (invoke) {
+      const node: LoggedInvocation = {
+        programId: invoke[1],
+        depth: Number(invoke[2]),
+        status: 'Unknown',
+        computeUnitsConsumed: null,
+        computeUnitsLimit: null,
+        logs: [],
+        events: [],
+        children: []
+      };
+      if (current) current.children.push(node);
+      else roots.push(node);
+      stack.push(node);
+      continue;
+    }
+
+    const consumed = line.match(CONSUMED_LOG);
+    if (consumed && current?.programId === consumed[1]) {
+      current.computeUnitsConsumed = Number(consumed[2]);
+      current.computeUnitsLimit = Number(consumed[3]);
+      continue;
+    }
+
+    const success = line.match(SUCCESS_LOG);
+    if (success && current?.programId === success[1]) {
+      current.status = 'Success';
+      stack.pop();
+      continue;
+    }
+
+    const failed = line.match(FAILED_LOG);
+    if (failed && current?.programId === failed[1]) {
+      current.status = 'Failed';
+      current.error = failed[2];
+      stack.pop();
+      continue;
+    }
+
+    if (!current || CONSUMPTION_LOG.test(line)) continue;
+
+    const returned = line.match(RETURN_LOG);
+    if (returned) {
+      current.returnData = returned[2];
+    } else if (line.startsWith(PROGRAM_DATA_PREFIX)) {
+      // A single sol_log_data call may log several base64 chunks separated by spaces
+      current.events.push(...line.slice(PROGRAM_DATA_PREFIX.length).split(' ').map(data => ({ data })));
+    } else if (line.startsWith(PROGRAM_LOG_PREFIX)) {
+      current.logs.push(line.slice(PROGRAM_LOG_PREFIX.length));
+    } else {
+      // Builtin programs log without a prefix, e.g. "Transfer: insufficient lamports"
+      current.logs.push(line);
+    }
+  }
+
+  return roots;
+}
+
+function getProgramName(programId: string): string | undefined {
+  const registry = DecoderRegistry.getInstance();
+  return registry.has(programId) ? registry.getDecoder(programId).name : undefined;
+}
+
+function toNode(
+  logged: LoggedInvocation,
+  instructionIndex: number,
+  detail: InstructionDetail | undefined
+): InvocationNode {
+  return {
+    programId: logged.programId,
+    programName: detail?.programName ?? getProgramName(logged.programId),
+    depth: logged.depth,
+    instructionIndex,
+    instructionName: detail?.instructionName,
+    params: detail?.params,
+    status: logged.status,
+    error: logged.error,
+    computeUnitsConsumed: logged.computeUnitsConsumed,
+    computeUnitsLimit: logged.computeUnitsLimit,
+    logs: logged.logs,
+    events: logged.events,
+    returnData: logged.returnData,
+    children: []
+  };
+}
+
+// Inner instructions are recorded in invocation order, i.e. a pre-order walk of the logged CPIs
+function mergeLogged(root: LoggedInvocation, instructionIndex: number, detail: InstructionDetail): InvocationNode {
+  const inner = detail.innerInstructions || [];
+  let next = 0;
+
+  const visit = (logged: LoggedInvocation): InvocationNode => {
+    const candidate = inner[next];
+    // A mismatch means the logs and inner instructions disagree; keep the logged node undecoded
+    const matched = candidate?.programId === logged.programId ? candidate : undefined;
+    const node = toNode(logged, instructionIndex, matched);
+    if (matched) node.innerInstructionIndex = next++;
+    node.children = logged.children.map(visit);
+    return node;
+  };
+
+  const node = toNode(root, instructionIndex, detail);
+  node.children = root.children.map(visit);
+  return node;
+}
+
+// Without logs the tree comes from the instructions alone; RPCs report each CPI's stackHeight
+function fromInstructions(
+  tx: ParsedTransactionWithMeta,
+  instructionIndex: number,
+  detail: InstructionDetail
+): InvocationNode {
+  // A failed transaction does not say which instructions ran before the failing one
+  const status: InvocationStatus = tx.meta?.err ? 'Unknown' : 'Success';
+  const toInvocation = (ix: InstructionDetail, depth: number): InvocationNode => ({
+    programId: ix.programId,
+    programName: ix.programName,
+    depth,
+    instructionIndex,
+    instructionName: ix.instructionName,
+    params: ix.params,
+    status,
+    computeUnitsConsumed: null,
+    computeUnitsLimit: null,
+    logs: [],
+    events: [],
+    children: []
+  });
+  const root = toInvocation(detail, 1);
+
+  const stackHeights = (tx.meta?.innerInstructions || [])
+    .filter(group => group.index === instructionIndex)
+    .flatMap(group => group.instructions)
+    .map(ix => (ix as { stackHeight?: number }).stackHeight ?? 2);
+
+  const stack: InvocationNode[] = [root];
+  (detail.innerInstructions || []).forEach((inner, innerInstructionIndex) => {
+    const depth = stackHeights[innerInstructionIndex] ?? 2;
+    while (stack.length > 1 && stack[stack.length - 1].depth >= depth) stack.pop();
+
+    const node = { ...toInvocation(inner, depth), innerInstructionIndex };
+    stack[stack.length - 1].children.push(node);
+    stack.push(node);
+  });
+
+  return root;
+}
+
+async function decodeEvents(connection: Connection, nodes: InvocationNode[]) {
+  const withEvents: InvocationNode[] = [];
+  const collect = (node: InvocationNode) => {
+    if (node.events.length > 0) withEvents.push(node);
+    node.children.forEach(collect);
+  };
+  nodes.forEach(collect);
+
+  const idlLoader = IdlLoader.getInstance();
+  for (const node of withEvents) {
+    const idl = await idlLoader.getIdl(connection, node.programId);
+    if (!idl?.events?.length) continue;
+
+    for (const event of node.events) {
+      try {
+        const decoded = await decodeAnchorEvent(idl, new Uint8Array(Buffer.from(event.data, 'base64')));
+        if (decoded) Object.assign(event, decoded);
+      } catch (error) {
+        console.warn(`Could not decode event of ${node.programId}:`, error);
+      }
+    }
+  }
+}
+
+// Merges the logged invoke tree with the decoded instructions (one per top-level instruction, in
+// order), so each node carries its decoded args, logs, events and CU usage
+export async function buildInvocationTree(
+  connection: Connection,
+  tx: ParsedTransactionWithMeta,
+  instructions: InstructionDetail[]
+): Promise<InvocationNode[]> {
+  const logged = parseProgramLogs(tx.meta?.logMessages || []);
+  let next = 0;
+
+  const nodes = instructions.map((detail, instructionIndex) => {
+    // Precompiles run without logging an invoke, so only consume a root when the program matches
+    const root = logged[next];
+    if (root?.programId === detail.programId) {
+      next++;
+      return mergeLogged(root, instructionIndex, detail);
+    }
+    return fromInstructions(tx, instructionIndex, detail);
+  });
+
+  await decodeEvents(connection, nodes);
+  return nodes;
+}
@@ -0,0 +1,203 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { LanguageModel } from 'ai';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+export const PROVIDER_TYPES = ['openai', 'anthropic', 'openai-compatible'] as const;
+
+// The default when neither the model nor its provider sets one
+const DEFAULT_TEMPERATURE = 0.7;
+
+export const ModelSchema = z.object({
+  // Sent to the provider as is, e.g. `gpt-4o-mini` or `llama3.1:8b`
+  id: z.string().min(1),
+  name: z.string().optional(),
+  temperature: z.number().min(0).max(2).optional(),
+});
+
+export const ModelProviderSchema = z.object({
+  // Used in model selections, e.g. `local` in `local:llama3.1`
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'lowercase letters, digits and dashes only'),
+  name: z.string().min(1),
+  type: z.enum(PROVIDER_TYPES),
+  // Required for openai-compatible servers (Ollama, vLLM, LM Studio...); optional proxy URL for the others
+  baseURL: z.string().url().optional(),
+  // False for servers that keep transaction data inside the deployment
+  hosted: z.boolean().default(true),
+  temperature: z.number().min(0).max(2).optional(),
+  models: z.array(ModelSchema).min(1),
+});
+
+const ModelsFileSchema = z.object({
+  // `provider:model`
+  default: z.string().optional(),
+  providers: z.array(ModelProviderSchema),
+});
+
+export type ModelConfig = z.infer<typeof ModelSchema>;
+export type ModelProvider = z.infer<typeof ModelProviderSchema>;
+
+interface ModelsConfig {
+  providers: ModelProvider[];
+  defaultModel: string;
+}
+
+// What the model picker gets: no URLs or keys
+export interface ModelOption {
+  id: string;
+  name: string;
+  provider: string;
+  providerName: string;
+  hosted: boolean;
+}
+
+export interface SelectedModel {
+  id: string;
+  model: LanguageModel;
+  temperature: number;
+}
+
+// Used when no models file is present
+const DEFAULT_PROVIDERS: ModelProvider[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    type: 'openai',
+    hosted: true,
+    models: [{ id: 'gpt-4o-mini', name: 'GPT-4o mini' }, { id: 'gpt-4o', name: 'GPT-4o' }]
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    type: 'anthropic',
+    hosted: true,
+    models: [{ id: 'claude-3-5-sonnet-latest', name: 'Claude 3.5 Sonnet' }, { id: 'claude-3-5-haiku-latest', name: 'Claude 3.5 Haiku' }]
+  }
+];
+
+const DEFAULT_MODEL = 'openai:gpt-4o-mini';
+
+// LLM_API_KEY_<PROVIDER>, LLM_BASE_URL_<PROVIDER>: keys and deployment-specific URLs stay out of the config file
+function providerEnv(prefix: string, providerId: string): string | undefined {
+  return process.env[`${prefix}_${providerId.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`] || undefined;
+}
+
+function getApiKey(provider: ModelProvider): string | undefined {
+  const key = providerEnv('LLM_API_KEY', provider.id);
+  if (key) return key;
+  if (provider.type === 'openai') return process.env.OPENAI_API_KEY || undefined;
+  if (provider.type === 'anthropic') return process.env.ANTHROPIC_API_KEY || undefined;
+  return undefined;
+}
+
+function getBaseURL(provider: ModelProvider): string | undefined {
+  return providerEnv('LLM_BASE_URL', provider.id) || provider.baseURL;
+}
+
+// Hosted APIs need a key; compatible servers need somewhere to send requests
+function isConfigured(provider: ModelProvider): boolean {
+  return provider.type === 'openai-compatible' ? Boolean(getBaseURL(provider)) : Boolean(getApiKey(provider));
+}
+
+function splitSelection(selection: string): { providerId: string; modelId: string } {
+  const separator = selection.indexOf(':');
+  if (separator <= 0) throw new Error(`Invalid model ${selection}, expected provider:model`);
+  return { providerId: selection.slice(0, separator), modelId: selection.slice(separator + 1) };
+}
+
+// LLM providers from MODELS_CONFIG_PATH (defaults to ./config/models.json). LLM_PROVIDERS limits which ones
+// may be used, e.g. `local` where transaction data must not leave the deployment; LLM_DEFAULT_MODEL picks the default
+export class ModelManager {
+  private static instance: ModelManager;
+  private config: Promise<ModelsConfig> | null = null;
+  private readonly configPath = process.env.MODELS_CONFIG_PATH || path.join(process.cwd(), 'config', 'models.json');
+
+  private constructor() {}
+
+  static getInstance(): ModelManager {
+    if (!ModelManager.instance) {
+      ModelManager.instance = new ModelManager();
+    }
+    return ModelManager.instance;
+  }
+
+  private async loadConfig(): Promise<ModelsConfig> {
+    let config: ModelsConfig = { providers: DEFAULT_PROVIDERS, defaultModel: DEFAULT_MODEL };
+    try {
+      const file = ModelsFileSchema.parse(JSON.parse(await fs.readFile(this.configPath, 'utf8')));
+      config = { providers: file.providers, defaultModel: file.default || DEFAULT_MODEL };
+    } catch (error) {
+      console.warn(`Models file ${this.configPath} not loaded, using OpenAI and Anthropic defaults:`, (error as Error).message);
+    }
+
+    const allowed = (process.env.LLM_PROVIDERS || '').split(',').map(id => id.trim()).filter(Boolean);
+    return {
+      providers: allowed.length ? config.providers.filter(provider => allowed.includes(provider.id)) : config.providers,
+      defaultModel: process.env.LLM_DEFAULT_MODEL || config.defaultModel
+    };
+  }
+
+  private getConfig(): Promise<ModelsConfig> {
+    if (!this.config) {
+      this.config = this.loadConfig();
+    }
+    return this.config;
+  }
+
+  // Models of enabled providers that have the key or URL they need; the default falls back to the first of them
+  async listModels(): Promise<{ default: string | null; models: ModelOption[] }> {
+    const { providers, defaultModel } = await this.getConfig();
+    const models = providers.filter(isConfigured).flatMap(provider => provider.models.map(model => ({
+      id: `${provider.id}:${model.id}`,
+      name: model.name || model.id,
+      provider: provider.id,
+      providerName: provider.name,
+      hosted: provider.hosted
+    })));
+    const preferred = models.find(model => model.id === defaultModel);
+    return { default: preferred?.id ?? models[0]?.id ?? null, models };
+  }
+
+  // `selection` is `provider:model`; without one the default model is used
+  async getModel(selection?: string): Promise<SelectedModel> {
+    const { default: fallback } = await this.listModels();
+    const id = selection || fallback;
+    if (!id) throw new Error('No LLM provider is configured');
+
+    const { providerId, modelId } = splitSelection(id);
+    const provider = (await this.getConfig()).providers.find(candidate => candidate.id === providerId);
+    if (!provider) throw new Error(`Model provider ${providerId} not found`);
+    if (!isConfigured(provider)) throw new Error(`Model provider ${providerId} is not configured`);
+
+    const modelConfig = provider.models.find(model => model.id === modelId);
+    if (!modelConfig) throw new Error(`Model ${modelId} is not available from ${providerId}`);
+
+    return {
+      id,
+      model: this.createModel(provider, modelId),
+      temperature: modelConfig.temperature ?? provider.temperature ?? DEFAULT_TEMPERATURE
+    };
+  }
+
+  private createModel(provider: ModelProvider, modelId: string): LanguageModel {
+    const apiKey = getApiKey(provider);
+    const baseURL = getBaseURL(provider);
+
+    switch (provider.type) {
+      case 'anthropic':
+        return createAnthropic({ apiKey, baseURL })(modelId);
+      case 'openai':
+        return createOpenAI({ apiKey, baseURL, compatibility: 'strict' })(modelId);
+      case 'openai-compatible':
+        // Local servers usually ignore the key, but the client refuses to send a request without one
+        return createOpenAI({ apiKey: apiKey || 'not-needed', baseURL, compatibility: 'compatible', name: provider.id })(modelId);
+    }
+  }
+
+  // Re-read the models file and environment
+  clearCache() {
+    this.config = null;
+  }
+}
@@ -0,0 +1,93 @@
+import { PublicKey } from '@solana/web3.js';
+import { serializeBigInts } from './index';
+import { ChainManager } from './chainManager';
+import { analyzeTransaction } from './transactionAnalyzer';
+import { analyzeAddress } from './addressAnalyzer';
+import { ModelManager } from './modelManager';
+import { CacheManager, DEFAULT_CACHE_TTL_MS, cacheKey } from './cache';
+import { AddressAnalysis, AddressAnalysisSchema, TransactionAnalysis, TransactionAnalysisSchema } from '../types';
+
+// Balances move; an address page only needs to share one load between its metadata and its body
+const ADDRESS_TTL_MS = 30 * 1000;
+const SIGNATURE_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{64,88}$/;
+
+export type PermalinkKind = 'tx' | 'address';
+
+// A transaction's explanation only changes with the model; an address's goes stale with its balances
+const EXPLANATION_TTL_MS: Record<PermalinkKind, number> = { tx: 24 * 60 * 60 * 1000, address: DEFAULT_CACHE_TTL_MS };
+
+function isAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Analyses behind /tx/[cluster]/[signature]; null when the cluster, signature or transaction does not exist
+export async function loadTransactionPermalink(cluster: string, signature: string): Promise<TransactionAnalysis | null> {
+  const chainManager = ChainManager.getInstance();
+  if (!SIGNATURE_PATTERN.test(signature) || !(await chainManager.getNetwork(cluster))) return null;
+
+  const connection = await chainManager.getConnection(cluster);
+  try {
+    return await CacheManager.getInstance().getOrLoad(
+      cacheKey('permalinkTransaction', connection, signature),
+      async () => TransactionAnalysisSchema.parse(serializeBigInts(await analyzeTransaction(signature, cluster))),
+      DEFAULT_CACHE_TTL_MS
+    );
+  } catch (error) {
+    if ((error as Error).message === 'Transaction not found') return null;
+    console.error('Error loading transaction permalink:', error);
+    throw error;
+  }
+}
+
+// Analyses behind /address/[cluster]/[address]; null when the cluster or address is invalid
+export async function loadAddressPermalink(cluster: string, address: string): Promise<AddressAnalysis | null> {
+  const chainManager = ChainManager.getInstance();
+  if (!isAddress(address) || !(await chainManager.getNetwork(cluster))) return null;
+
+  const connection = await chainManager.getConnection(cluster);
+  try {
+    return await CacheManager.getInstance().getOrLoad(
+      cacheKey('permalinkAddress', connection, address),
+      async () => AddressAnalysisSchema.parse(serializeBigInts(await analyzeAddress(address, cluster))),
+      ADDRESS_TTL_MS
+    );
+  } catch (error) {
+    console.error('Error loading address permalink:', error);
+    throw error;
+  }
+}
+
+// The same prompt the chat tools would answer, with the analysis already attached
+export function explanationPrompt(kind: PermalinkKind, id: string, analysis: TransactionAnalysis | AddressAnalysis): string {
+  return kind === 'tx'
+    ? `Analyze transaction ${id}. This is the analyzeTx result:\n${JSON.stringify(analysis)}`
+    : `Analyze address ${id}. This is the analyzeAddress result:\n${JSON.stringify(analysis)}`;
+}
+
+async function explanationKey(cluster: string, kind: PermalinkKind, id: string, modelId: string): Promise<string | null> {
+  const chainManager = ChainManager.getInstance();
+  if (!(await chainManager.getNetwork(cluster))) return null;
+  return cacheKey('permalinkExplanation', await chainManager.getConnection(cluster), `${kind}:${id}:${modelId}`);
+}
+
+// Explanation a model already wrote for a permalink page; without `modelId` the default model's
+export async function getCachedExplanation(
+  cluster: string,
+  kind: PermalinkKind,
+  id: string,
+  modelId?: string
+): Promise<string | null> {
+  const model = modelId ?? (await ModelManager.getInstance().listModels()).default;
+  const key = model ? await explanationKey(cluster, kind, id, model) : null;
+  return key ? (await CacheManager.getInstance().get<string>(key)) ?? null : null;
+}
+
+export async function cacheExplanation(cluster: string, kind: PermalinkKind, id: string, modelId: string, explanation: string) {
+  const key = await explanationKey(cluster, kind, id, modelId);
+  if (key) await CacheManager.getInstance().set(key, explanation, EXPLANATION_TTL_MS[kind]);
+}
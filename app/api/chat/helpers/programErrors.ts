@@ -0,0 +1,213 @@
+import { SYSTEM_PROGRAM_ID } from './decoders/system';
+import { TOKEN_PROGRAM_ID } from './decoders/token';
+import { ASSOCIATED_TOKEN_PROGRAM_ID } from './decoders/associatedToken';
+import { TOKEN_2022_PROGRAM_ID } from './token2022Extensions';
+import { FailureErrorSource } from '../types';
+
+export interface ProgramError {
+  name: string;
+  message: string;
+}
+
+type ErrorTable = Record<number, ProgramError>;
+
+// solana_program::system_instruction::SystemError
+const SYSTEM_ERRORS: ErrorTable = {
+  0: { name: 'AccountAlreadyInUse', message: 'An account with the same address already exists' },
+  1: { name: 'ResultWithNegativeLamports', message: 'Account does not have enough SOL to perform the operation' },
+  2: { name: 'InvalidProgramId', message: 'Cannot assign account to this program id' },
+  3: { name: 'InvalidAccountDataLength', message: 'Cannot allocate account data of this length' },
+  4: { name: 'MaxSeedLengthExceeded', message: 'Length of requested seed is too long' },
+  5: { name: 'AddressWithSeedMismatch', message: 'Provided address does not match addressed derived from seed' },
+  6: { name: 'NonceNoRecentBlockhashes', message: 'Advancing stored nonce requires a populated RecentBlockhashes sysvar' },
+  7: { name: 'NonceBlockhashNotExpired', message: 'Stored nonce is still in recent_blockhashes' },
+  8: { name: 'NonceUnexpectedBlockhashValue', message: 'Specified nonce does not match stored nonce' }
+};
+
+// spl_token::error::TokenError; Token-2022 keeps these codes and appends its own
+const TOKEN_ERRORS: ErrorTable = {
+  0: { name: 'NotRentExempt', message: 'Lamport balance below rent-exempt threshold' },
+  1: { name: 'InsufficientFunds', message: 'Insufficient funds' },
+  2: { name: 'InvalidMint', message: 'Invalid Mint' },
+  3: { name: 'MintMismatch', message: 'Account not associated with this Mint' },
+  4: { name: 'OwnerMismatch', message: 'Owner does not match' },
+  5: { name: 'FixedSupply', message: 'Fixed supply' },
+  6: { name: 'AlreadyInUse', message: 'Already in use' },
+  7: { name: 'InvalidNumberOfProvidedSigners', message: 'Invalid number of provided signers' },
+  8: { name: 'InvalidNumberOfRequiredSigners', message: 'Invalid number of required signers' },
+  9: { name: 'UninitializedState', message: 'State is uninitialized' },
+  10: { name: 'NativeNotSupported', message: 'Instruction does not support native tokens' },
+  11: { name: 'NonNativeHasBalance', message: 'Non-native account can only be closed if its balance is zero' },
+  12: { name: 'InvalidInstruction', message: 'Invalid instruction' },
+  13: { name: 'InvalidState', message: 'State is invalid for requested operation' },
+  14: { name: 'Overflow', message: 'Operation overflowed' },
+  15: { name: 'AuthorityTypeNotSupported', message: 'Account does not support specified authority type' },
+  16: { name: 'MintCannotFreeze', message: 'This token mint cannot freeze accounts' },
+  17: { name: 'AccountFrozen', message: 'Account is frozen' },
+  18: { name: 'MintDecimalsMismatch', message: 'The provided decimals value different from the Mint decimals' },
+  19: { name: 'NonNativeNotSupported', message: 'Instruction does not support non-native tokens' }
+};
+
+const TOKEN_2022_ERRORS: ErrorTable = {
+  ...TOKEN_ERRORS,
+  20: { name: 'ExtensionTypeMismatch', message: 'Extension type does not match already existing extensions' },
+  21: { name: 'ExtensionBaseMismatch', message: 'Extension does not match the base type provided' },
+  22: { name: 'ExtensionAlreadyInitialized', message: 'Extension already initialized on this account' },
+  23: { name: 'ConfidentialTransferAccountHasBalance', message: 'An account can only be closed if its confidential balance is zero' },
+  24: { name: 'ConfidentialTransferAccountNotApproved', message: 'Account not approved for confidential transfers' },
+  25: { name: 'ConfidentialTransferDepositsAndTransfersDisabled', message: 'Account not accepting deposits or transfers' },
+  26: { name: 'ConfidentialTransferElGamalPubkeyMismatch', message: 'ElGamal public key mismatch' },
+  27: { name: 'ConfidentialTransferBalanceMismatch', message: 'Balance mismatch' },
+  28: { name: 'MintHasSupply', message: 'Mint has non-zero supply. Burn all tokens before closing the mint' },
+  29: { name: 'NoAuthorityExists', message: 'No authority exists to perform the desired operation' },
+  30: { name: 'TransferFeeExceedsMaximum', message: 'Transfer fee exceeds maximum of 10,000 basis points' },
+  31: { name: 'MintRequiredForTransfer', message: 'Mint required for this account to transfer tokens, use `transfer_checked` or `transfer_checked_with_fee`' },
+  32: { name: 'FeeMismatch', message: 'Calculated fee does not match expected fee' },
+  33: { name: 'FeeParametersMismatch', message: 'Fee parameters associated with confidential transfer zero-knowledge proofs do not match fee parameters in mint' },
+  34: { name: 'ImmutableOwner', message: 'The owner authority cannot be changed' },
+  35: { name: 'AccountHasWithheldTransferFees', message: 'An account can only be closed if its withheld fee balance is zero, harvest fees to the mint and try again' },
+  36: { name: 'NoMemo', message: 'No memo in previous instruction; required for recipient to receive a transfer' },
+  37: { name: 'NonTransferable', message: 'Transfer is disabled for this mint' },
+  38: { name: 'NonTransferableNeedsImmutableOwnership', message: 'Non-transferable tokens can\'t be minted to an account without immutable ownership' },
+  39: { name: 'MaximumPendingBalanceCreditCounterExceeded', message: 'The total number of `Deposit` and `Transfer` instructions to an account cannot exceed the associated `maximum_pending_balance_credit_counter`' },
+  40: { name: 'MaximumDepositAmountExceeded', message: 'Deposit amount exceeds maximum limit' },
+  41: { name: 'CpiGuardSettingsLocked', message: 'CPI Guard cannot be enabled or disabled in CPI' },
+  42: { name: 'CpiGuardTransferBlocked', message: 'CPI Guard is enabled, and a program attempted to transfer user funds via CPI without using a delegate' },
+  43: { name: 'CpiGuardBurnBlocked', message: 'CPI Guard is enabled, and a program attempted to burn user funds via CPI without using a delegate' },
+  44: { name: 'CpiGuardCloseAccountBlocked', message: 'CPI Guard is enabled, and a program attempted to close an account via CPI without returning lamports to owner' },
+  45: { name: 'CpiGuardApproveBlocked', message: 'CPI Guard is enabled, and a program attempted to approve a delegate via CPI' },
+  46: { name: 'CpiGuardSetAuthorityBlocked', message: 'CPI Guard is enabled, and a program attempted to add or replace an authority via CPI' },
+  47: { name: 'CpiGuardOwnerChangeBlocked', message: 'Account ownership cannot be changed while CPI Guard is enabled' },
+  48: { name: 'ExtensionNotFound', message: 'Extension not found in account data' }
+};
+
+// spl_associated_token_account::error::AssociatedTokenAccountError
+const ASSOCIATED_TOKEN_ERRORS: ErrorTable = {
+  0: { name: 'InvalidOwner', message: 'Associated token account owner does not match address derivation' }
+};
+
+// anchor_lang::error::ErrorCode; user-defined IDL errors start at 6000
+export const ANCHOR_ERROR_OFFSET = 6000;
+export const ANCHOR_ERRORS: ErrorTable = {
+  100: { name: 'InstructionMissing', message: '8 byte instruction identifier not provided' },
+  101: { name: 'InstructionFallbackNotFound', message: 'Fallback functions are not supported' },
+  102: { name: 'InstructionDidNotDeserialize', message: 'The program could not deserialize the given instruction' },
+  103: { name: 'InstructionDidNotSerialize', message: 'The program could not serialize the given instruction' },
+  1000: { name: 'IdlInstructionStub', message: 'The program was compiled without idl instructions' },
+  1001: { name: 'IdlInstructionInvalidProgram', message: 'Invalid program given to the IDL instruction' },
+  1002: { name: 'IdlAccountNotEmpty', message: 'IDL account must be empty in order to resize, try closing first' },
+  1500: { name: 'EventInstructionStub', message: 'The program was compiled without `event-cpi` feature' },
+  2000: { name: 'ConstraintMut', message: 'A mut constraint was violated' },
+  2001: { name: 'ConstraintHasOne', message: 'A has one constraint was violated' },
+  2002: { name: 'ConstraintSigner', message: 'A signer constraint was violated' },
+  2003: { name: 'ConstraintRaw', message: 'A raw constraint was violated' },
+  2004: { name: 'ConstraintOwner', message: 'An owner constraint was violated' },
+  2005: { name: 'ConstraintRentExempt', message: 'A rent exemption constraint was violated' },
+  2006: { name: 'ConstraintSeeds', message: 'A seeds constraint was violated' },
+  2007: { name: 'ConstraintExecutable', message: 'An executable constraint was violated' },
+  2008: { name: 'ConstraintState', message: 'Deprecated Error, feel free to replace with something else' },
+  2009: { name: 'ConstraintAssociated', message: 'An associated constraint was violated' },
+  2010: { name: 'ConstraintAssociatedInit', message: 'An associated init constraint was violated' },
+  2011: { name: 'ConstraintClose', message: 'A close constraint was violated' },
+  2012: { name: 'ConstraintAddress', message: 'An address constraint was violated' },
+  2013: { name: 'ConstraintZero', message: 'Expected zero account discriminant' },
+  2014: { name: 'ConstraintTokenMint', message: 'A token mint constraint was violated' },
+  2015: { name: 'ConstraintTokenOwner', message: 'A token owner constraint was violated' },
+  2016: { name: 'ConstraintMintMintAuthority', message: 'A mint mint authority constraint was violated' },
+  2017: { name: 'ConstraintMintFreezeAuthority', message: 'A mint freeze authority constraint was violated' },
+  2018: { name: 'ConstraintMintDecimals', message: 'A mint decimals constraint was violated' },
+  2019: { name: 'ConstraintSpace', message: 'A space constraint was violated' },
+  2020: { name: 'ConstraintAccountIsNone', message: 'A required account for the constraint is None' },
+  2500: { name: 'RequireViolated', message: 'A require expression was violated' },
+  2501: { name: 'RequireEqViolated', message: 'A require_eq expression was violated' },
+  2502: { name: 'RequireKeysEqViolated', message: 'A require_keys_eq expression was violated' },
+  2503: { name: 'RequireNeqViolated', message: 'A require_neq expression was violated' },
+  2504: { name: 'RequireKeysNeqViolated', message: 'A require_keys_neq expression was violated' },
+  2505: { name: 'RequireGtViolated', message: 'A require_gt expression was violated' },
+  2506: { name: 'RequireGteViolated', message: 'A require_gte expression was violated' },
+  3000: { name: 'AccountDiscriminatorAlreadySet', message: 'The account discriminator was already set on this account' },
+  3001: { name: 'AccountDiscriminatorNotFound', message: 'No 8 byte discriminator was found on the account' },
+  3002: { name: 'AccountDiscriminatorMismatch', message: '8 byte discriminator did not match what was expected' },
+  3003: { name: 'AccountDidNotDeserialize', message: 'Failed to deserialize the account' },
+  3004: { name: 'AccountDidNotSerialize', message: 'Failed to serialize the account' },
+  3005: { name: 'AccountNotEnoughKeys', message: 'Not enough account keys given to the instruction' },
+  3006: { name: 'AccountNotMutable', message: 'The given account is not mutable' },
+  3007: { name: 'AccountOwnedByWrongProgram', message: 'The given account is owned by a different program than expected' },
+  3008: { name: 'InvalidProgramId', message: 'Program ID was not as expected' },
+  3009: { name: 'InvalidProgramExecutable', message: 'Program account is not executable' },
+  3010: { name: 'AccountNotSigner', message: 'The given account did not sign' },
+  3011: { name: 'AccountNotSystemOwned', message: 'The given account is not owned by the system program' },
+  3012: { name: 'AccountNotInitialized', message: 'The program expected this account to be already initialized' },
+  3013: { name: 'AccountNotProgramData', message: 'The given account is not a program data account' },
+  3014: { name: 'AccountNotAssociatedTokenAccount', message: 'The given account is not the associated token account' },
+  3015: { name: 'AccountSysvarMismatch', message: 'The given public key does not match the required sysvar' },
+  3016: { name: 'AccountReallocExceedsLimit', message: 'The account reallocation exceeds the MAX_PERMITTED_DATA_INCREASE limit' },
+  3017: { name: 'AccountDuplicateReallocs', message: 'The account was duplicated for more than one reallocation' },
+  4100: { name: 'DeclaredProgramIdMismatch', message: 'The declared program id does not match the actual program id' },
+  4101: { name: 'TryingToInitPayerAsProgramAccount', message: 'You cannot/should not initialize the payer account as a program account' },
+  4102: { name: 'InvalidNumericConversion', message: 'The program could not perform the numeric conversion, out of range integral type conversion attempted' },
+  5000: { name: 'Deprecated', message: 'The API being used is deprecated and should no longer be used' }
+};
+
+// Custom error codes of the built-in programs we decode, by program ID
+export const PROGRAM_ERROR_TABLES: Record<string, { source: FailureErrorSource; errors: ErrorTable }> = {
+  [SYSTEM_PROGRAM_ID]: { source: 'System', errors: SYSTEM_ERRORS },
+  [TOKEN_PROGRAM_ID]: { source: 'SPL Token', errors: TOKEN_ERRORS },
+  [TOKEN_2022_PROGRAM_ID]: { source: 'SPL Token', errors: TOKEN_2022_ERRORS },
+  [ASSOCIATED_TOKEN_PROGRAM_ID]: { source: 'Associated Token', errors: ASSOCIATED_TOKEN_ERRORS }
+};
+
+// Runtime InstructionError variants that programs return without a custom code
+export const INSTRUCTION_ERRORS: Record<string, string> = {
+  GenericError: 'Generic instruction error',
+  InvalidArgument: 'An invalid argument was provided to the instruction',
+  InvalidInstructionData: 'The instruction data is invalid for this program',
+  InvalidAccountData: 'An account\'s data is invalid for this instruction',
+  AccountDataTooSmall: 'An account\'s data is too small',
+  InsufficientFunds: 'An account does not have enough lamports',
+  IncorrectProgramId: 'An account is owned by a different program than expected',
+  MissingRequiredSignature: 'A required signature is missing',
+  AccountAlreadyInitialized: 'The account is already initialized',
+  UninitializedAccount: 'The account has not been initialized',
+  NotEnoughAccountKeys: 'The instruction expected more accounts',
+  AccountBorrowFailed: 'Failed to borrow an account\'s data',
+  MaxSeedLengthExceeded: 'A PDA seed is too long',
+  InvalidSeeds: 'The provided seeds do not produce a valid program address',
+  ExternalAccountLamportSpend: 'An instruction spent lamports from an account it does not own',
+  ReadonlyLamportChange: 'An instruction changed the lamports of a read-only account',
+  ReadonlyDataModified: 'An instruction modified the data of a read-only account',
+  PrivilegeEscalation: 'A CPI tried to sign for or write to an account it was not given those privileges for',
+  ProgramFailedToComplete: 'The program panicked or aborted',
+  ComputationalBudgetExceeded: 'The transaction ran out of compute units',
+  InvalidAccountOwner: 'An account is owned by an unexpected program',
+  ArithmeticOverflow: 'An arithmetic operation overflowed',
+  Immutable: 'The account is immutable',
+  IncorrectAuthority: 'The provided authority is not the account\'s authority',
+  AccountNotRentExempt: 'An account would be left below the rent-exempt minimum',
+  UnsupportedProgramId: 'The program is not supported',
+  CallDepth: 'Too many nested cross-program invocations',
+  MaxAccountsDataAllocationsExceeded: 'The transaction allocated too much account data',
+  BorshIoError: 'The program failed to deserialize its input'
+};
+
+// Transaction-level TransactionError variants, raised before or outside any instruction
+export const TRANSACTION_ERRORS: Record<string, string> = {
+  AccountInUse: 'An account is already being processed in another transaction',
+  AccountLoadedTwice: 'An account appears twice in the transaction',
+  AccountNotFound: 'The fee payer account does not exist',
+  ProgramAccountNotFound: 'An invoked program does not exist',
+  InsufficientFundsForFee: 'The fee payer does not have enough SOL to pay the fee',
+  InvalidAccountForFee: 'The fee payer cannot pay fees (it is not a system account)',
+  AlreadyProcessed: 'This transaction has already been processed',
+  BlockhashNotFound: 'The recent blockhash is expired or unknown',
+  SignatureFailure: 'A signature is missing or invalid',
+  InvalidAccountIndex: 'The transaction references an account index that does not exist',
+  InvalidProgramForExecution: 'The invoked account is not an executable program',
+  InsufficientFundsForRent: 'An account would be left below the rent-exempt minimum',
+  WouldExceedMaxBlockCostLimit: 'The transaction would exceed the block compute limit',
+  WouldExceedMaxAccountCostLimit: 'The transaction would exceed the per-account compute limit',
+  AddressLookupTableNotFound: 'An address lookup table could not be found',
+  InvalidAddressLookupTableIndex: 'An address lookup table index is out of range',
+  DuplicateInstruction: 'The transaction contains a duplicate instruction',
+  ProgramExecutionTemporarilyRestricted: 'The program cannot be executed right now'
+};
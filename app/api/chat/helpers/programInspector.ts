@@ -0,0 +1,218 @@
+import { AccountInfo, Connection, ParsedInstruction, PublicKey } from '@solana/web3.js';
+import { BorshReader } from './decoders/borsh';
+import { DecoderRegistry } from './decoders';
+import {
+  BPF_LOADER_DEPRECATED_ID,
+  BPF_LOADER_ID,
+  BPF_UPGRADEABLE_LOADER_ID,
+  LOADER_V4_ID,
+  NATIVE_LOADER_ID,
+  UPGRADEABLE_LOADER_INSTRUCTIONS
+} from './decoders/bpfLoader';
+import { CacheManager, DEFAULT_CACHE_TTL_MS, cacheKey } from './cache';
+import { ProgramInspection, ProgramLoader, ProgramUpgradeEvent } from '../types';
+
+export const DEFAULT_UPGRADE_HISTORY_LIMIT = 10;
+
+// UpgradeableLoaderState::ProgramData: u32 tag, u64 slot, Option<Pubkey> authority
+const PROGRAM_DATA_METADATA_SIZE = 45;
+const PROGRAM_STATE_TAG = 2;
+const PROGRAM_DATA_STATE_TAG = 3;
+// LoaderV4State: u64 slot, Pubkey authority, u64 status
+const LOADER_V4_METADATA_SIZE = 48;
+const LOADER_V4_STATUS_FINALIZED = 2;
+
+// Loader instructions that change a deployed program, as opposed to buffer management
+const UPGRADE_INSTRUCTION_TYPES = ['deployWithMaxDataLen', 'upgrade', 'setAuthority', 'setAuthorityChecked', 'extendProgram', 'close'];
+
+type ProgramState = Pick<
+  ProgramInspection,
+  'loader' | 'upgradeable' | 'upgradeAuthority' | 'programDataAddress' | 'lastDeployedSlot' | 'binarySize'
+>;
+
+const IMMUTABLE_STATE = {
+  upgradeable: false,
+  upgradeAuthority: null,
+  programDataAddress: null,
+  lastDeployedSlot: null
+};
+
+function getLoader(owner: string): ProgramLoader {
+  switch (owner) {
+    case NATIVE_LOADER_ID:
+      return 'Native';
+    case BPF_LOADER_ID:
+    case BPF_LOADER_DEPRECATED_ID:
+      return 'BPF Loader';
+    case BPF_UPGRADEABLE_LOADER_ID:
+      return 'Upgradeable BPF Loader';
+    case LOADER_V4_ID:
+      return 'Loader v4';
+    default:
+      return 'Unknown';
+  }
+}
+
+// The program account only points at its ProgramData, which holds the authority and the ELF
+async function readUpgradeableProgram(connection: Connection, program: AccountInfo<Buffer>): Promise<ProgramState> {
+  const programReader = new BorshReader(new Uint8Array(program.data));
+  if (programReader.u32() !== PROGRAM_STATE_TAG) throw new Error('Account is not an upgradeable program');
+  const programDataAddress = programReader.publicKey();
+
+  const programData = await connection.getAccountInfo(new PublicKey(programDataAddress));
+  if (!programData) throw new Error(`ProgramData account ${programDataAddress} not found`);
+
+  const reader = new BorshReader(new Uint8Array(programData.data));
+  if (reader.u32() !== PROGRAM_DATA_STATE_TAG) throw new Error(`Account ${programDataAddress} is not ProgramData`);
+  const lastDeployedSlot = Number(reader.u64());
+  const upgradeAuthority = reader.u8() === 1 ? reader.publicKey() : null;
+
+  return {
+    loader: 'Upgradeable BPF Loader',
+    upgradeable: upgradeAuthority !== null,
+    upgradeAuthority,
+    programDataAddress,
+    lastDeployedSlot,
+    binarySize: Math.max(programData.data.length - PROGRAM_DATA_METADATA_SIZE, 0)
+  };
+}
+
+function readLoaderV4Program(program: AccountInfo<Buffer>): ProgramState {
+  const reader = new BorshReader(new Uint8Array(program.data));
+  const lastDeployedSlot = Number(reader.u64());
+  const authority = reader.publicKey();
+  const finalized = Number(reader.u64()) === LOADER_V4_STATUS_FINALIZED;
+
+  return {
+    loader: 'Loader v4',
+    upgradeable: !finalized,
+    // Finalized programs store their next version here instead of an authority
+    upgradeAuthority: finalized ? null : authority,
+    programDataAddress: null,
+    lastDeployedSlot,
+    binarySize: Math.max(program.data.length - LOADER_V4_METADATA_SIZE, 0)
+  };
+}
+
+async function readProgramState(connection: Connection, program: AccountInfo<Buffer>): Promise<ProgramState> {
+  const loader = getLoader(program.owner.toBase58());
+
+  switch (loader) {
+    case 'Upgradeable BPF Loader':
+      return readUpgradeableProgram(connection, program);
+    case 'Loader v4':
+      return readLoaderV4Program(program);
+    case 'BPF Loader':
+      // Legacy loaders have no upgrade path; the account data is the ELF itself
+      return { loader, ...IMMUTABLE_STATE, binarySize: program.data.length };
+    default:
+      return { loader, ...IMMUTABLE_STATE, binarySize: null };
+  }
+}
+
+// Deploys, upgrades and authority changes recorded against the ProgramData account
+export async function getUpgradeHistory(
+  connection: Connection,
+  programDataAddress: string,
+  limit = DEFAULT_UPGRADE_HISTORY_LIMIT
+): Promise<ProgramUpgradeEvent[]> {
+  const signatures = await connection.getSignaturesForAddress(new PublicKey(programDataAddress), { limit });
+  const successful = signatures.filter(sig => !sig.err);
+  const txs = await connection.getParsedTransactions(
+    successful.map(sig => sig.signature),
+    { maxSupportedTransactionVersion: 0 }
+  );
+
+  const events: ProgramUpgradeEvent[] = [];
+  txs.forEach((tx, i) => {
+    if (!tx) return;
+
+    const instructions = [
+      ...tx.transaction.message.instructions,
+      ...(tx.meta?.innerInstructions?.flatMap(inner => inner.instructions) || [])
+    ];
+
+    for (const instruction of instructions) {
+      if (instruction.programId.toBase58() !== BPF_UPGRADEABLE_LOADER_ID || !('parsed' in instruction)) continue;
+
+      const { type, info } = (instruction as ParsedInstruction).parsed;
+      if (!UPGRADE_INSTRUCTION_TYPES.includes(type)) continue;
+      if (info?.programDataAccount !== programDataAddress && info?.account !== programDataAddress) continue;
+
+      events.push({
+        signature: successful[i].signature,
+        slot: tx.slot,
+        blockTime: tx.blockTime ? new Date(tx.blockTime * 1000).toISOString() : null,
+        instructionName: UPGRADEABLE_LOADER_INSTRUCTIONS[type],
+        ...(type.startsWith('setAuthority') && { newAuthority: info.newAuthority ?? null })
+      });
+    }
+  });
+
+  return events;
+}
+
+// Who can change a program's code, when it last changed and how large it is.
+// Pass historyLimit 0 to skip the (RPC-heavy) upgrade history lookup.
+// Upgrades are rare but not final, so inspections are reused for DEFAULT_CACHE_TTL_MS.
+export async function inspectProgram(
+  connection: Connection,
+  programId: string,
+  historyLimit = DEFAULT_UPGRADE_HISTORY_LIMIT
+): Promise<ProgramInspection> {
+  return CacheManager.getInstance().getOrLoad(
+    cacheKey('programInspection', connection, `${programId}:${historyLimit}`),
+    () => loadProgramInspection(connection, programId, historyLimit),
+    DEFAULT_CACHE_TTL_MS
+  );
+}
+
+async function loadProgramInspection(
+  connection: Connection,
+  programId: string,
+  historyLimit: number
+): Promise<ProgramInspection> {
+  const registry = DecoderRegistry.getInstance();
+  const programName = registry.has(programId) ? registry.getDecoder(programId).name : undefined;
+
+  try {
+    const program = await connection.getAccountInfo(new PublicKey(programId));
+    if (!program) {
+      return {
+        programId,
+        programName,
+        exists: false,
+        executable: false,
+        loader: 'Unknown',
+        ...IMMUTABLE_STATE,
+        binarySize: null,
+        recentUpgrades: []
+      };
+    }
+
+    const state = program.executable
+      ? await readProgramState(connection, program)
+      : { loader: 'Unknown' as const, ...IMMUTABLE_STATE, binarySize: null };
+
+    let recentUpgrades: ProgramUpgradeEvent[] = [];
+    if (state.programDataAddress && historyLimit > 0) {
+      try {
+        recentUpgrades = await getUpgradeHistory(connection, state.programDataAddress, historyLimit);
+      } catch (error) {
+        console.warn(`Error fetching upgrade history for ${programId}:`, error);
+      }
+    }
+
+    return {
+      programId,
+      programName,
+      exists: true,
+      executable: program.executable,
+      ...state,
+      recentUpgrades
+    };
+  } catch (error) {
+    console.error(`Program inspection error for ${programId}:`, error);
+    throw error;
+  }
+}
@@ -0,0 +1,109 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { RISK_SEVERITIES, RiskFinding, RiskSeverity } from '../../types';
+import { BUILTIN_RULES } from './rules';
+import { RiskContext, RiskRule, RiskRuleConfig } from './types';
+
+const RiskRulesFileSchema = z.object({
+  rules: z.record(z.object({
+    enabled: z.boolean().optional(),
+    severity: z.enum(RISK_SEVERITIES).optional(),
+    params: z.record(z.unknown()).optional(),
+  })).default({}),
+});
+
+type RiskRuleOverrides = z.infer<typeof RiskRulesFileSchema>['rules'];
+
+// Highest finding severity; a transaction without findings is Low risk
+export function deriveRiskLevel(findings: RiskFinding[]): RiskSeverity {
+  return findings.reduce<RiskSeverity>(
+    (level, finding) => RISK_SEVERITIES.indexOf(finding.severity) > RISK_SEVERITIES.indexOf(level) ? finding.severity : level,
+    'Low'
+  );
+}
+
+// Runs the built-in rules with the overrides from RISK_RULES_PATH (defaults to ./config/risk-rules.json)
+export class RiskEngine {
+  private static instance: RiskEngine;
+  private rules: Map<string, RiskRule> = new Map();
+  private overrides: Promise<RiskRuleOverrides> | null = null;
+  private readonly rulesPath = process.env.RISK_RULES_PATH || path.join(process.cwd(), 'config', 'risk-rules.json');
+
+  private constructor() {
+    BUILTIN_RULES.forEach(rule => this.register(rule));
+  }
+
+  static getInstance(): RiskEngine {
+    if (!RiskEngine.instance) {
+      RiskEngine.instance = new RiskEngine();
+    }
+    return RiskEngine.instance;
+  }
+
+  // Registering an ID that already exists replaces the previous rule
+  register(rule: RiskRule) {
+    this.rules.set(rule.id, rule);
+  }
+
+  list(): RiskRule[] {
+    return Array.from(this.rules.values());
+  }
+
+  // A missing rules file is not an error: every rule then runs with its defaults
+  private async loadOverrides(): Promise<RiskRuleOverrides> {
+    try {
+      const raw = JSON.parse(await fs.readFile(this.rulesPath, 'utf8'));
+      return RiskRulesFileSchema.parse(raw).rules;
+    } catch (error) {
+      console.warn(`Risk rules file ${this.rulesPath} not loaded:`, (error as Error).message);
+      return {};
+    }
+  }
+
+  async getConfig(rule: RiskRule): Promise<RiskRuleConfig> {
+    if (!this.overrides) {
+      this.overrides = this.loadOverrides();
+    }
+    const override = (await this.overrides)[rule.id] || {};
+
+    return {
+      enabled: override.enabled ?? true,
+      severity: override.severity ?? rule.defaultSeverity,
+      params: { ...rule.defaultParams, ...override.params }
+    };
+  }
+
+  // Re-read the rules file on next evaluation
+  reload() {
+    this.overrides = null;
+  }
+
+  async evaluate(context: RiskContext): Promise<RiskFinding[]> {
+    const findings: RiskFinding[] = [];
+
+    for (const rule of this.list()) {
+      const config = await this.getConfig(rule);
+      if (!config.enabled) continue;
+
+      try {
+        findings.push(...rule.evaluate(context, config).map(draft => ({
+          ...draft,
+          ruleId: rule.id,
+          // A rule may escalate a finding but never go below the configured severity
+          severity: draft.severity && RISK_SEVERITIES.indexOf(draft.severity) > RISK_SEVERITIES.indexOf(config.severity)
+            ? draft.severity
+            : config.severity
+        })));
+      } catch (error) {
+        console.warn(`Risk rule ${rule.id} failed:`, error);
+      }
+    }
+
+    // Most severe first, then in instruction order
+    return findings.sort((a, b) =>
+      RISK_SEVERITIES.indexOf(b.severity) - RISK_SEVERITIES.indexOf(a.severity)
+      || (a.instructionIndex ?? Infinity) - (b.instructionIndex ?? Infinity)
+    );
+  }
+}
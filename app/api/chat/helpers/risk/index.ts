@@ -0,0 +1,3 @@
+export * from './types';
+export { RiskEngine, deriveRiskLevel } from './engine';
+export { BUILTIN_RULES } from './rules';
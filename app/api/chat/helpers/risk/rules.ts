@@ -0,0 +1,314 @@
+import { ParsedInstruction, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { DecoderRegistry, INSTRUCTION_TYPE } from '../decoders';
+import { AddressLabel } from '../../types';
+import { SYSTEM_PROGRAM_ID } from '../decoders/system';
+import { RiskFindingDraft, RiskRule } from './types';
+
+const TOKEN_PROGRAMS = ['spl-token', 'spl-token-2022'];
+const U64_MAX = '18446744073709551615';
+// ~1 day of slots at 400ms
+const RECENT_UPGRADE_SLOTS = 216000;
+
+interface ParsedEntry {
+  program: string;
+  type: string;
+  info: Record<string, any>;
+  instructionIndex: number;
+  innerInstructionIndex?: number;
+}
+
+interface InstructionLocation {
+  instructionIndex: number;
+  innerInstructionIndex?: number;
+}
+
+// Every RPC-parsed instruction, top-level and CPI, with its location in the transaction
+function getParsedEntries(tx: ParsedTransactionWithMeta): ParsedEntry[] {
+  const entries: ParsedEntry[] = [];
+  const push = (instruction: ParsedInstruction, location: InstructionLocation) => {
+    const { type, info } = instruction.parsed || {};
+    if (type) entries.push({ program: instruction.program, type, info: info || {}, ...location });
+  };
+
+  tx.transaction.message.instructions.forEach((instruction, instructionIndex) => {
+    if ('parsed' in instruction) push(instruction, { instructionIndex });
+  });
+  tx.meta?.innerInstructions?.forEach(group => {
+    group.instructions.forEach((instruction, innerInstructionIndex) => {
+      if ('parsed' in instruction) push(instruction, { instructionIndex: group.index, innerInstructionIndex });
+    });
+  });
+
+  return entries;
+}
+
+function getSigners(tx: ParsedTransactionWithMeta): string[] {
+  return tx.transaction.message.accountKeys.filter(key => key.signer).map(key => key.pubkey.toBase58());
+}
+
+// First place the program is invoked, top-level before CPI
+function findProgramInvocation(tx: ParsedTransactionWithMeta, programId: string): InstructionLocation | null {
+  const instructionIndex = tx.transaction.message.instructions.findIndex(ix => ix.programId.toBase58() === programId);
+  if (instructionIndex !== -1) return { instructionIndex };
+
+  for (const group of tx.meta?.innerInstructions || []) {
+    const innerInstructionIndex = group.instructions.findIndex(ix => ix.programId.toBase58() === programId);
+    if (innerInstructionIndex !== -1) return { instructionIndex: group.index, innerInstructionIndex };
+  }
+  return null;
+}
+
+function referencesAddress(instruction: INSTRUCTION_TYPE, address: string): boolean {
+  if (instruction.programId.toBase58() === address) return true;
+  if ('parsed' in instruction) return JSON.stringify(instruction.parsed?.info ?? {}).includes(address);
+  return instruction.accounts.some(account => account.toBase58() === address);
+}
+
+// First instruction that invokes or passes the address, top-level before CPI
+function findAddressReference(tx: ParsedTransactionWithMeta, address: string): InstructionLocation | null {
+  const instructionIndex = tx.transaction.message.instructions.findIndex(ix => referencesAddress(ix, address));
+  if (instructionIndex !== -1) return { instructionIndex };
+
+  for (const group of tx.meta?.innerInstructions || []) {
+    const innerInstructionIndex = group.instructions.findIndex(ix => referencesAddress(ix, address));
+    if (innerInstructionIndex !== -1) return { instructionIndex: group.index, innerInstructionIndex };
+  }
+  return null;
+}
+
+function isKnownProgram(address: string): boolean {
+  return DecoderRegistry.getInstance().has(address);
+}
+
+function location(entry: ParsedEntry): InstructionLocation {
+  return entry.innerInstructionIndex === undefined
+    ? { instructionIndex: entry.instructionIndex }
+    : { instructionIndex: entry.instructionIndex, innerInstructionIndex: entry.innerInstructionIndex };
+}
+
+const unlimitedApprove: RiskRule = {
+  id: 'unlimited-approve',
+  description: 'Token approval of at least `minAmount` to a delegate that is neither a signer nor a known program',
+  defaultSeverity: 'High',
+  defaultParams: { minAmount: U64_MAX },
+  evaluate({ tx }, { params }) {
+    const minAmount = BigInt(String(params.minAmount ?? U64_MAX));
+    const signers = getSigners(tx);
+
+    return getParsedEntries(tx)
+      .filter(entry => TOKEN_PROGRAMS.includes(entry.program) && ['approve', 'approveChecked'].includes(entry.type))
+      .filter(({ info }) => {
+        const amount = BigInt(info.tokenAmount?.amount ?? info.amount ?? 0);
+        return amount >= minAmount && !signers.includes(info.delegate) && !isKnownProgram(info.delegate);
+      })
+      .map(entry => {
+        const amount = entry.info.tokenAmount?.amount ?? entry.info.amount;
+        return {
+          title: 'Unlimited token approval',
+          explanation: `${entry.info.delegate} may spend ${amount === U64_MAX ? 'an unlimited amount' : amount} of the tokens in ${entry.info.source} without further signatures, and is not a known program`,
+          address: entry.info.delegate,
+          ...location(entry)
+        };
+      });
+  }
+};
+
+const tokenAuthorityChange: RiskRule = {
+  id: 'token-authority-change',
+  description: 'SPL Token SetAuthority handing a mint or token account authority to a new address; revocations are ignored',
+  defaultSeverity: 'Medium',
+  defaultParams: { highSeverityAuthorityTypes: ['accountOwner', 'mintTokens', 'permanentDelegate'] },
+  evaluate({ tx }, { params }) {
+    const highSeverityTypes = (params.highSeverityAuthorityTypes as string[] | undefined) || [];
+
+    return getParsedEntries(tx)
+      .filter(entry => TOKEN_PROGRAMS.includes(entry.program) && entry.type === 'setAuthority' && entry.info.newAuthority)
+      .map(entry => {
+        const { authorityType, newAuthority, mint, account } = entry.info;
+        return {
+          severity: highSeverityTypes.includes(authorityType) ? 'High' as const : undefined,
+          title: `Token authority change (${authorityType})`,
+          explanation: `The ${authorityType} authority of ${mint || account} is transferred to ${newAuthority}`,
+          address: newAuthority,
+          ...location(entry)
+        };
+      });
+  }
+};
+
+const programAuthorityChange: RiskRule = {
+  id: 'program-authority-change',
+  description: 'Upgradeable loader SetAuthority giving another address control over a program or buffer',
+  defaultSeverity: 'High',
+  evaluate({ tx }) {
+    return getParsedEntries(tx)
+      .filter(entry => entry.program === 'bpf-upgradeable-loader'
+        && ['setAuthority', 'setAuthorityChecked'].includes(entry.type)
+        && entry.info.newAuthority)
+      .map(entry => ({
+        title: 'Program upgrade authority change',
+        explanation: `The upgrade authority of ${entry.info.account} moves from ${entry.info.authority} to ${entry.info.newAuthority}, who can then replace the program's code`,
+        address: entry.info.newAuthority,
+        ...location(entry)
+      }));
+  }
+};
+
+const closeAccountToThirdParty: RiskRule = {
+  id: 'close-account-third-party',
+  description: 'Token CloseAccount sending the rent to an address that is neither the owner nor a signer',
+  defaultSeverity: 'Medium',
+  evaluate({ tx }) {
+    const signers = getSigners(tx);
+
+    return getParsedEntries(tx)
+      .filter(entry => TOKEN_PROGRAMS.includes(entry.program) && entry.type === 'closeAccount')
+      .filter(({ info }) => info.destination !== (info.owner || info.multisigOwner) && !signers.includes(info.destination))
+      .map(entry => ({
+        title: 'Account rent sent to a third party',
+        explanation: `Closing ${entry.info.account} sends its rent to ${entry.info.destination} instead of the owner ${entry.info.owner || entry.info.multisigOwner}`,
+        address: entry.info.destination,
+        ...location(entry)
+      }));
+  }
+};
+
+const signerAccountAssign: RiskRule = {
+  id: 'signer-account-assign',
+  description: 'System Assign moving a funded signing wallet to another program, which then controls its lamports',
+  defaultSeverity: 'High',
+  evaluate({ tx }) {
+    const signers = getSigners(tx);
+    const accountKeys = tx.transaction.message.accountKeys.map(key => key.pubkey.toBase58());
+    // Fresh keypairs are routinely allocated and assigned in the transaction that funds them
+    const wasFunded = (account: string) => (tx.meta?.preBalances[accountKeys.indexOf(account)] ?? 0) > 0;
+
+    return getParsedEntries(tx)
+      .filter(entry => entry.program === 'system' && ['assign', 'assignWithSeed'].includes(entry.type))
+      .filter(({ info }) => signers.includes(info.account) && info.owner !== SYSTEM_PROGRAM_ID && wasFunded(info.account))
+      .map(entry => ({
+        title: 'Wallet ownership reassigned',
+        explanation: `Signer ${entry.info.account} is reassigned to program ${entry.info.owner}, which will control the account from now on`,
+        address: entry.info.account,
+        ...location(entry)
+      }));
+  }
+};
+
+const nonExecutableProgram: RiskRule = {
+  id: 'non-executable-program',
+  description: 'Instruction addressed to an account that is not an executable program',
+  defaultSeverity: 'High',
+  evaluate({ tx, analysis }) {
+    return analysis.programs
+      .filter(program => !program.executable)
+      .map(program => ({
+        title: 'Non-executable program',
+        explanation: `${program.programId} is invoked as a program but ${program.exists ? 'is not executable' : 'does not exist'}`,
+        address: program.programId,
+        instructionIndex: null,
+        ...findProgramInvocation(tx, program.programId)
+      }));
+  }
+};
+
+const upgradeableUnknownProgram: RiskRule = {
+  id: 'upgradeable-unknown-program',
+  description: 'Interaction with an unrecognised program whose code can still be changed by its upgrade authority',
+  defaultSeverity: 'Medium',
+  evaluate({ tx, analysis }) {
+    return analysis.programs
+      .filter(program => program.upgradeable && !isKnownProgram(program.programId))
+      .map(program => ({
+        title: 'Upgradeable unknown program',
+        explanation: `${program.programId} is not a recognised program and ${program.upgradeAuthority} can replace its code at any time`,
+        address: program.programId,
+        instructionIndex: null,
+        ...findProgramInvocation(tx, program.programId)
+      }));
+  }
+};
+
+const recentProgramUpgrade: RiskRule = {
+  id: 'recent-program-upgrade',
+  description: 'Program upgraded less than `slots` slots before the transaction',
+  defaultSeverity: 'Medium',
+  defaultParams: { slots: RECENT_UPGRADE_SLOTS },
+  evaluate({ tx, analysis }, { params }) {
+    const maxSlots = Number(params.slots ?? RECENT_UPGRADE_SLOTS);
+
+    return analysis.programs
+      .filter(program => program.lastDeployedSlot !== null)
+      .filter(program => {
+        const slotsBefore = tx.slot - (program.lastDeployedSlot as number);
+        return slotsBefore >= 0 && slotsBefore < maxSlots;
+      })
+      .map(program => ({
+        title: 'Recently upgraded program',
+        explanation: `${program.programName || program.programId} was upgraded ${tx.slot - (program.lastDeployedSlot as number)} slots before this transaction (slot ${program.lastDeployedSlot})`,
+        address: program.programId,
+        instructionIndex: null,
+        ...findProgramInvocation(tx, program.programId)
+      }));
+  }
+};
+
+const permanentDelegateToken: RiskRule = {
+  id: 'permanent-delegate-token',
+  description: 'Transfer of a Token-2022 mint with a permanent delegate able to move or burn any holder\'s tokens',
+  defaultSeverity: 'Medium',
+  evaluate({ analysis }) {
+    const mints = new Map<string, string>();
+    analysis.transfers.forEach(({ token }) => {
+      if (token.address && token.extensions?.permanentDelegate) {
+        mints.set(token.address, token.extensions.permanentDelegate);
+      }
+    });
+
+    return Array.from(mints.entries()).map(([mint, delegate]): RiskFindingDraft => ({
+      title: 'Token with permanent delegate',
+      explanation: `${delegate} can transfer or burn ${mint} from any holder, including the recipients of this transaction`,
+      address: mint,
+      instructionIndex: null
+    }));
+  }
+};
+
+const labelledScamAddress: RiskRule = {
+  id: 'labelled-scam-address',
+  description: 'Any account, transfer counterparty or program labelled as a known drainer or scam in the label registry',
+  defaultSeverity: 'High',
+  evaluate({ tx, analysis }) {
+    const scams = new Map<string, AddressLabel>();
+    const collect = (address: string, label?: AddressLabel) => {
+      if (label?.category === 'scam') scams.set(address, label);
+    };
+    analysis.accounts.forEach(account => collect(account.address, account.label));
+    analysis.transfers.forEach(transfer => {
+      collect(transfer.from, transfer.fromLabel);
+      collect(transfer.to, transfer.toLabel);
+    });
+    analysis.programs.forEach(program => collect(program.programId, program.label));
+
+    return Array.from(scams.entries()).map(([address, label]): RiskFindingDraft => ({
+      title: 'Known scam address',
+      explanation: `${address} is labelled "${label.name}" as a known drainer or scam${label.source ? ` (${label.source})` : ''}`,
+      address,
+      instructionIndex: null,
+      ...findAddressReference(tx, address)
+    }));
+  }
+};
+
+export const BUILTIN_RULES: RiskRule[] = [
+  unlimitedApprove,
+  tokenAuthorityChange,
+  programAuthorityChange,
+  closeAccountToThirdParty,
+  signerAccountAssign,
+  nonExecutableProgram,
+  upgradeableUnknownProgram,
+  recentProgramUpgrade,
+  permanentDelegateToken,
+  labelledScamAddress
+];
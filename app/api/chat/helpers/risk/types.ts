@@ -0,0 +1,25 @@
+import { ParsedTransactionWithMeta } from '@solana/web3.js';
+import { RiskFinding, RiskSeverity, TransactionAnalysis } from '../../types';
+
+export interface RiskContext {
+  tx: ParsedTransactionWithMeta;
+  analysis: Omit<TransactionAnalysis, 'summary' | 'findings'>;
+}
+
+// Per-rule overrides from the rules file; anything left out keeps the rule's defaults
+export interface RiskRuleConfig {
+  enabled: boolean;
+  severity: RiskSeverity;
+  params: Record<string, unknown>;
+}
+
+// Findings without a severity get the configured one
+export type RiskFindingDraft = Omit<RiskFinding, 'ruleId' | 'severity'> & { severity?: RiskSeverity };
+
+export interface RiskRule {
+  id: string;
+  description: string;
+  defaultSeverity: RiskSeverity;
+  defaultParams?: Record<string, unknown>;
+  evaluate(context: RiskContext, config: RiskRuleConfig): RiskFindingDraft[];
+}
@@ -0,0 +1,287 @@
+// Per-cluster RPC endpoint pool: every JSON-RPC request goes through `fetch` below, which retries,
+// backs off on rate limits, fails over between endpoints and scores them by health and latency.
+
+const REQUEST_TIMEOUT_MS = Number(process.env.RPC_TIMEOUT_MS) || 8000;
+// All attempts of one call, backoff included, have to fit well inside the shortest route budget (15s)
+const RETRY_BUDGET_MS = Number(process.env.RPC_RETRY_BUDGET_MS) || 10000;
+// Not worth starting another attempt with less time than this left
+const MIN_ATTEMPT_MS = 500;
+const MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+// An endpoint that keeps failing sits out for a while instead of slowing down every request
+const FAILURE_COOLDOWN_THRESHOLD = 3;
+const FAILURE_COOLDOWN_MS = 30000;
+const LATENCY_SMOOTHING = 0.3;
+const CALL_HISTORY_SIZE = 200;
+
+export interface RpcEndpointHealth {
+  // Host only: endpoint URLs often embed API keys
+  endpoint: string;
+  successes: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  // Exponentially weighted moving average of successful calls
+  averageLatencyMs: number | null;
+  score: number;
+  coolingDownUntil: string | null;
+  lastError: string | null;
+}
+
+export interface RpcCallRecord {
+  method: string;
+  endpoint: string;
+  status: 'ok' | 'error';
+  attempts: number;
+  latencyMs: number;
+  error?: string;
+  at: string;
+}
+
+interface EndpointState {
+  url: string;
+  name: string;
+  successes: number;
+  failures: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  averageLatencyMs: number | null;
+  cooldownUntil: number;
+  lastError: string | null;
+}
+
+function endpointName(url: string, index: number, urls: string[]): string {
+  try {
+    const host = new URL(url).host;
+    const duplicate = urls.some((other, i) => i !== index && new URL(other).host === host);
+    return duplicate ? `${host} (#${index + 1})` : host;
+  } catch {
+    return `endpoint #${index + 1}`;
+  }
+}
+
+function getMethod(body: unknown): string {
+  try {
+    const parsed = JSON.parse(String(body));
+    return Array.isArray(parsed) ? `batch(${parsed.map(request => request.method).join(',')})` : parsed.method;
+  } catch {
+    return 'unknown';
+  }
+}
+
+// JSON-RPC errors a node returns with HTTP 200 when it is behind, unhealthy or lacks the slot;
+// another endpoint can usually answer
+const NODE_HEALTH_ERROR_CODES = [-32004, -32005, -32007, -32009, -32014, -32016];
+const NODE_HEALTH_ERROR_MESSAGE = /slot .*skipped|not available|behind|unhealthy|long-term storage/i;
+
+// The node-health error in a JSON-RPC (batch) response body, if any; other errors are the caller's
+async function getNodeHealthError(response: Response): Promise<string | null> {
+  try {
+    const text = await response.clone().text();
+    if (!text.includes('"error"')) return null;
+    const body = JSON.parse(text);
+    for (const { error } of Array.isArray(body) ? body : [body]) {
+      if (error && (NODE_HEALTH_ERROR_CODES.includes(error.code) || NODE_HEALTH_ERROR_MESSAGE.test(String(error.message)))) {
+        return `JSON-RPC ${error.code}: ${error.message}`;
+      }
+    }
+  } catch {
+    // Not JSON: leave it to web3.js
+  }
+  return null;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('retry-after');
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+export class RpcPool {
+  private endpoints: EndpointState[];
+  private calls: RpcCallRecord[] = [];
+
+  constructor(readonly cluster: string, urls: string[]) {
+    if (urls.length === 0) throw new Error(`No RPC endpoints configured for ${cluster}`);
+    this.endpoints = urls.map((url, i) => ({
+      url,
+      name: endpointName(url, i, urls),
+      successes: 0,
+      failures: 0,
+      rateLimited: 0,
+      consecutiveFailures: 0,
+      averageLatencyMs: null,
+      cooldownUntil: 0,
+      lastError: null
+    }));
+  }
+
+  get primaryUrl(): string {
+    return this.endpoints[0].url;
+  }
+
+  // Success rate dominates; latency only separates endpoints that are about equally reliable
+  private score(endpoint: EndpointState): number {
+    const successRate = (endpoint.successes + 1) / (endpoint.successes + endpoint.failures + 1);
+    const latencyPenalty = Math.min(endpoint.averageLatencyMs ?? 0, 5000) / 100;
+    return Math.round((successRate * 100 - latencyPenalty) * 100) / 100;
+  }
+
+  // Healthy endpoints by score, cooling-down ones last; configuration order breaks ties
+  private ranked(): EndpointState[] {
+    const now = Date.now();
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort((a, b) => {
+        const aCooling = a.endpoint.cooldownUntil > now ? 1 : 0;
+        const bCooling = b.endpoint.cooldownUntil > now ? 1 : 0;
+        if (aCooling !== bCooling) return aCooling - bCooling;
+        return (this.score(b.endpoint) - this.score(a.endpoint)) || (a.index - b.index);
+      })
+      .map(({ endpoint }) => endpoint);
+  }
+
+  private recordSuccess(endpoint: EndpointState, latencyMs: number) {
+    endpoint.successes++;
+    endpoint.consecutiveFailures = 0;
+    endpoint.cooldownUntil = 0;
+    endpoint.averageLatencyMs = endpoint.averageLatencyMs === null
+      ? latencyMs
+      : Math.round(endpoint.averageLatencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING);
+  }
+
+  private recordFailure(endpoint: EndpointState, error: string, cooldownMs?: number) {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error;
+    if (cooldownMs !== undefined) {
+      endpoint.cooldownUntil = Date.now() + cooldownMs;
+    } else if (endpoint.consecutiveFailures >= FAILURE_COOLDOWN_THRESHOLD) {
+      endpoint.cooldownUntil = Date.now() + FAILURE_COOLDOWN_MS;
+    }
+  }
+
+  private recordCall(call: Omit<RpcCallRecord, 'at'>) {
+    this.calls.push({ ...call, at: new Date().toISOString() });
+    if (this.calls.length > CALL_HISTORY_SIZE) this.calls.shift();
+  }
+
+  private async attempt(endpoint: EndpointState, timeoutMs: number, init?: RequestInit): Promise<Response> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await fetch(endpoint.url, { ...init, signal: controller.signal });
+    } catch (error) {
+      if (controller.signal.aborted) throw new Error(`Timed out after ${timeoutMs}ms`);
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  // Drop-in `fetch` for web3.js Connection; the URL it passes is ignored in favour of the ranked endpoints.
+  // HTTP 429 backs off exponentially (or per Retry-After) before trying the next endpoint; timeouts, network
+  // errors, 5xx and node-health JSON-RPC errors fail over immediately. Other responses, including other JSON-RPC
+  // errors, are returned as is. Timeouts and backoff are cut short so a call never takes longer than RETRY_BUDGET_MS.
+  fetch = async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const method = getMethod(init?.body);
+    const order = this.ranked();
+    const startedAt = Date.now();
+    const deadline = startedAt + RETRY_BUDGET_MS;
+    let lastResponse: Response | null = null;
+    let lastError = 'no endpoint tried';
+    let rateLimitedAttempts = 0;
+    let attempts = 0;
+
+    while (attempts < MAX_ATTEMPTS && deadline - Date.now() >= MIN_ATTEMPT_MS) {
+      const endpoint = order[attempts % order.length];
+      const attemptStartedAt = Date.now();
+      attempts++;
+
+      try {
+        const response = await this.attempt(endpoint, Math.min(REQUEST_TIMEOUT_MS, deadline - attemptStartedAt), init);
+
+        if (response.status === 429) {
+          const delay = Math.min(
+            retryAfterMs(response) ?? BACKOFF_BASE_MS * 2 ** rateLimitedAttempts,
+            BACKOFF_MAX_MS,
+            Math.max(deadline - Date.now() - MIN_ATTEMPT_MS, 0)
+          );
+          endpoint.rateLimited++;
+          this.recordFailure(endpoint, 'HTTP 429 Too Many Requests', delay);
+          lastResponse = response;
+          lastError = `${endpoint.name}: rate limited`;
+          rateLimitedAttempts++;
+          console.warn(`RPC ${method} rate limited by ${endpoint.name}, backing off ${delay}ms`);
+          await sleep(delay);
+          continue;
+        }
+        if (response.status >= 500) {
+          this.recordFailure(endpoint, `HTTP ${response.status}`);
+          lastResponse = response;
+          lastError = `${endpoint.name}: HTTP ${response.status}`;
+          console.warn(`RPC ${method} failed on ${endpoint.name} (HTTP ${response.status}), failing over`);
+          continue;
+        }
+        const nodeError = response.ok ? await getNodeHealthError(response) : null;
+        if (nodeError) {
+          this.recordFailure(endpoint, nodeError);
+          lastResponse = response;
+          lastError = `${endpoint.name}: ${nodeError}`;
+          console.warn(`RPC ${method} failed on ${endpoint.name} (${nodeError}), failing over`);
+          continue;
+        }
+
+        this.recordSuccess(endpoint, Date.now() - attemptStartedAt);
+        this.recordCall({ method, endpoint: endpoint.name, status: 'ok', attempts, latencyMs: Date.now() - startedAt });
+        return response;
+      } catch (error) {
+        const message = (error as Error).message;
+        this.recordFailure(endpoint, message);
+        lastError = `${endpoint.name}: ${message}`;
+        console.warn(`RPC ${method} failed on ${endpoint.name} (${message}), failing over`);
+      }
+    }
+
+    this.recordCall({
+      method,
+      endpoint: order[Math.max(attempts - 1, 0) % order.length].name,
+      status: 'error',
+      attempts,
+      latencyMs: Date.now() - startedAt,
+      error: lastError
+    });
+    // Hand the last HTTP or JSON-RPC error back so web3.js raises its usual error for it
+    if (lastResponse) return lastResponse;
+    throw new Error(`All RPC endpoints failed for ${this.cluster} (${method}): ${lastError}`);
+  };
+
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.ranked().map(endpoint => ({
+      endpoint: endpoint.name,
+      successes: endpoint.successes,
+      failures: endpoint.failures,
+      rateLimited: endpoint.rateLimited,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      averageLatencyMs: endpoint.averageLatencyMs,
+      score: this.score(endpoint),
+      coolingDownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil).toISOString() : null,
+      lastError: endpoint.lastError
+    }));
+  }
+
+  // Most recent first: which endpoint served each call, after how many attempts
+  getRecentCalls(limit = 50): RpcCallRecord[] {
+    return this.calls.slice(-limit).reverse();
+  }
+}
@@ -0,0 +1,126 @@
+import { Connection, EpochSchedule } from '@solana/web3.js';
+import { Token2022Extensions } from '../types';
+
+export const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEjNbF';
+
+// Shape of `info.extensions` entries in jsonParsed Token-2022 mint accounts
+interface ParsedExtension {
+  extension: string;
+  state?: Record<string, any>;
+}
+
+export interface TokenMetadataExtension {
+  name: string;
+  symbol: string;
+  uri: string;
+  updateAuthority: string | null;
+  additionalMetadata: [string, string][];
+}
+
+function getExtensionState(extensions: ParsedExtension[], name: string): Record<string, any> | undefined {
+  return extensions.find(ext => ext.extension === name)?.state;
+}
+
+// A scheduled fee change only applies from `newerTransferFee.epoch` on; until then the older fee is charged
+function getActiveTransferFee(state: Record<string, any>, epoch: number): Record<string, any> {
+  const newer = state.newerTransferFee;
+  if (newer && epoch >= Number(newer.epoch)) return newer;
+  return state.olderTransferFee || newer || {};
+}
+
+// `epoch` is the one the fee is charged in: the transaction's, or the current one
+export function summarizeMintExtensions(extensions: ParsedExtension[] = [], epoch: number): Token2022Extensions {
+  const summary: Token2022Extensions = { other: [] };
+
+  for (const { extension, state = {} } of extensions) {
+    switch (extension) {
+      case 'transferFeeConfig': {
+        const fee = getActiveTransferFee(state, epoch);
+        summary.transferFee = {
+          feeBasisPoints: fee.transferFeeBasisPoints ?? 0,
+          maximumFee: String(fee.maximumFee ?? 0),
+          epoch: fee.epoch,
+          withheldAmount: String(state.withheldAmount ?? 0),
+          configAuthority: state.transferFeeConfigAuthority ?? null,
+          withdrawWithheldAuthority: state.withdrawWithheldAuthority ?? null
+        };
+        break;
+      }
+      case 'transferHook':
+        summary.transferHook = {
+          programId: state.programId ?? null,
+          authority: state.authority ?? null
+        };
+        break;
+      case 'confidentialTransferMint':
+        summary.confidentialTransfer = {
+          authority: state.authority ?? null,
+          autoApproveNewAccounts: Boolean(state.autoApproveNewAccounts),
+          auditorElgamalPubkey: state.auditorElgamalPubkey ?? null
+        };
+        break;
+      case 'permanentDelegate':
+        summary.permanentDelegate = state.delegate ?? null;
+        break;
+      case 'nonTransferable':
+        summary.nonTransferable = true;
+        break;
+      case 'mintCloseAuthority':
+        summary.mintCloseAuthority = state.closeAuthority ?? null;
+        break;
+      case 'metadataPointer':
+        summary.metadataPointer = {
+          authority: state.authority ?? null,
+          metadataAddress: state.metadataAddress ?? null
+        };
+        break;
+      case 'tokenMetadata':
+        // Surfaced as the token's name/symbol/uri instead
+        break;
+      default:
+        summary.other.push(extension);
+    }
+  }
+
+  return summary;
+}
+
+export function getTokenMetadataExtension(extensions: ParsedExtension[] = []): TokenMetadataExtension | null {
+  const state = getExtensionState(extensions, 'tokenMetadata');
+  if (!state) {
+    return null;
+  }
+
+  return {
+    name: state.name,
+    symbol: state.symbol,
+    uri: state.uri,
+    updateAuthority: state.updateAuthority ?? null,
+    additionalMetadata: state.additionalMetadata || []
+  };
+}
+
+// Fee withheld by the mint for a transfer of `amount` base units
+export function calculateTransferFee(amount: bigint, extensions: Token2022Extensions): bigint {
+  const fee = extensions.transferFee;
+  if (!fee || fee.feeBasisPoints === 0) {
+    return BigInt(0);
+  }
+
+  const rawFee = (amount * BigInt(fee.feeBasisPoints) + BigInt(9999)) / BigInt(10000);
+  const maximumFee = BigInt(fee.maximumFee);
+  return rawFee > maximumFee ? maximumFee : rawFee;
+}
+
+const epochSchedules = new Map<string, Promise<EpochSchedule>>();
+
+// Epoch of `slot`; the schedule is fixed per cluster, so it is fetched once per endpoint
+export async function getEpochForSlot(connection: Connection, slot: number): Promise<number> {
+  let schedule = epochSchedules.get(connection.rpcEndpoint);
+  if (!schedule) {
+    schedule = connection.getEpochSchedule();
+    schedule.catch(() => epochSchedules.delete(connection.rpcEndpoint));
+    epochSchedules.set(connection.rpcEndpoint, schedule);
+  }
+  return (await schedule).getEpoch(slot);
+}
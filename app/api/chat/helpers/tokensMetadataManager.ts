@@ -3,15 +3,20 @@ import {
   PublicKey
 } from '@solana/web3.js';
 import { Metadata } from '@metaplex-foundation/mpl-token-metadata';
+import {
+  getTokenMetadataExtension,
+  summarizeMintExtensions
+} from './token2022Extensions';
+import { CacheManager, DEFAULT_CACHE_TTL_MS, cacheKey } from './cache';
+
+// Supply and metadata can change, so they are refreshed hourly
+const METADATA_TTL_MS = 3600000;
 
 export class TokenMetadataManager {
   private static instance: TokenMetadataManager;
-  private metadataCache: Map<string, any>;
   private readonly METADATA_PROGRAM_ID = 'metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s';
 
-  private constructor() {
-    this.metadataCache = new Map();
-  }
+  private constructor() {}
 
   static getInstance(): TokenMetadataManager {
     if (!TokenMetadataManager.instance) {
@@ -44,6 +49,7 @@ export class TokenMetadataManager {
     }
   }
 
+  // Handles both Token and Token-2022 mints; `extensions` is only present on the latter
   private async getMintInfo(connection: Connection, mintAddress: string) {
     try {
       const mintInfo = await connection.getParsedAccountInfo(new PublicKey(mintAddress));
@@ -56,78 +62,97 @@ export class TokenMetadataManager {
         throw new Error('Unable to parse mint data');
       }
 
-      return parsedData.parsed;
+      return {
+        ...parsedData.parsed.info,
+        tokenProgram: parsedData.program === 'spl-token-2022' ? 'Token-2022' : 'Token',
+        extensions: parsedData.parsed.info.extensions || []
+      };
     } catch (error) {
       console.error('Error fetching mint info:', error);
       return null;
     }
   }
 
-  async getTokenMetadata(connection: Connection, mintAddress: string, tokenType: string = 'SPL') {
+  // `epoch` picks the Token-2022 transfer fee in effect; without it the current epoch's fee is reported
+  async getTokenMetadata(connection: Connection, mintAddress: string, tokenType: string = 'SPL', epoch?: number) {
     try {
-      // Check cache first
-      const cacheKey = `${mintAddress}-${tokenType}`;
-      const cachedMetadata = this.metadataCache.get(cacheKey);
-      if (cachedMetadata && Date.now() - cachedMetadata.timestamp < 3600000) { // 1 hour cache
-        return cachedMetadata;
-      }
-
-      let metadata: any = {
+      return await CacheManager.getInstance().getOrLoad(
+        cacheKey('tokenMetadata', connection, `${mintAddress}-${tokenType}${epoch === undefined ? '' : `@${epoch}`}`),
+        () => this.loadTokenMetadata(connection, mintAddress, tokenType, epoch),
+        // The current epoch can roll over while cached, switching to a scheduled fee
+        metadata => epoch === undefined && metadata.extensions?.transferFee ? DEFAULT_CACHE_TTL_MS : METADATA_TTL_MS
+      );
+    } catch (error) {
+      console.error('Error getting token metadata:', error);
+      return {
         address: mintAddress,
         type: tokenType,
-        timestamp: Date.now()
+        error: 'Failed to fetch metadata'
       };
+    }
+  }
 
-      // Get basic mint info
-      const mintInfo = await this.getMintInfo(connection, mintAddress);
-      if (!mintInfo) {
-        throw new Error('Failed to fetch mint info');
-      }
+  private async loadTokenMetadata(connection: Connection, mintAddress: string, tokenType: string, epoch?: number) {
+    let metadata: any = {
+      address: mintAddress,
+      type: tokenType,
+      timestamp: Date.now()
+    };
+
+    // Get basic mint info
+    const mintInfo = await this.getMintInfo(connection, mintAddress);
+    if (!mintInfo) {
+      throw new Error('Failed to fetch mint info');
+    }
 
+    metadata = {
+      ...metadata,
+      decimals: mintInfo.decimals,
+      supply: mintInfo.supply,
+      isInitialized: mintInfo.isInitialized,
+      tokenProgram: mintInfo.tokenProgram
+    };
+
+    if (mintInfo.tokenProgram === 'Token-2022') {
+      const feeEpoch = epoch ?? (await connection.getEpochInfo()).epoch;
+      metadata.extensions = summarizeMintExtensions(mintInfo.extensions, feeEpoch);
+    }
+
+    // Token-2022 mints can carry their metadata in the mint itself
+    const metadataExtension = getTokenMetadataExtension(mintInfo.extensions);
+    if (metadataExtension) {
       metadata = {
         ...metadata,
-        decimals: mintInfo.decimals,
-        supply: mintInfo.supply,
-        isInitialized: mintInfo.isInitialized
+        name: metadataExtension.name,
+        symbol: metadataExtension.symbol,
+        uri: metadataExtension.uri,
+        updateAuthority: metadataExtension.updateAuthority,
+        additionalMetadata: metadataExtension.additionalMetadata,
+        metadataSource: 'Token-2022'
       };
-
+    } else if (tokenType === 'NFT' || tokenType === 'SPL') {
       // For NFTs and tokens with metadata, fetch Metaplex metadata
-      if (tokenType === 'NFT' || tokenType === 'SPL') {
-        const metaplexData = await this.getMetaplexMetadata(connection, mintAddress);
-        if (metaplexData) {
-          metadata = {
-            ...metadata,
-            name: metaplexData.data.name,
-            symbol: metaplexData.data.symbol,
-            uri: metaplexData.data.uri,
-            sellerFeeBasisPoints: metaplexData.data.sellerFeeBasisPoints,
-            creators: metaplexData.data.creators,
-            collection: metaplexData.collection,
-            uses: metaplexData.uses
-          };
-        }
-      }
-
-      // Additional NFT-specific checks
-      if (tokenType === 'NFT') {
-        metadata.isNFT = mintInfo.decimals === 0 && mintInfo.supply === '1';
+      const metaplexData = await this.getMetaplexMetadata(connection, mintAddress);
+      if (metaplexData) {
+        metadata = {
+          ...metadata,
+          name: metaplexData.data.name,
+          symbol: metaplexData.data.symbol,
+          uri: metaplexData.data.uri,
+          sellerFeeBasisPoints: metaplexData.data.sellerFeeBasisPoints,
+          creators: metaplexData.data.creators,
+          collection: metaplexData.collection,
+          uses: metaplexData.uses,
+          metadataSource: 'Metaplex'
+        };
       }
+    }
 
-      // Cache the result
-      this.metadataCache.set(cacheKey, metadata);
-
-      return metadata;
-    } catch (error) {
-      console.error('Error getting token metadata:', error);
-      return {
-        address: mintAddress,
-        type: tokenType,
-        error: 'Failed to fetch metadata'
-      };
+    // Additional NFT-specific checks
+    if (tokenType === 'NFT') {
+      metadata.isNFT = mintInfo.decimals === 0 && mintInfo.supply === '1';
     }
-  }
 
-  clearCache() {
-    this.metadataCache.clear();
+    return metadata;
   }
 }
\ No newline at end of file
@@ -0,0 +1,322 @@
+import { Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { ChainManager, Network } from './chainManager';
+import { classifyAndExtractInstructions } from './instructionProcessor';
+import { computeBalanceChanges } from './balanceChanges';
+import { analyzeFees } from './feeAnalysis';
+import { buildAccountTable, getAddressTableLookups } from './accountTable';
+import { inspectProgram } from './programInspector';
+import { BPF_UPGRADEABLE_LOADER_ID } from './decoders/bpfLoader';
+import { RiskEngine, deriveRiskLevel } from './risk';
+import { LabelRegistry } from './labelRegistry';
+import { diagnoseFailure } from './failureDiagnosis';
+import { buildInvocationTree } from './logParser';
+import { buildComputeBreakdown } from './computeBreakdown';
+import { CacheManager, DEFAULT_CACHE_TTL_MS, cacheKey, isFinalizedSlot } from './cache';
+import {
+  ANALYSIS_SCHEMA_VERSION,
+  AnalysisSummary,
+  ProgramInspection,
+  SecurityInfo,
+  TransactionAnalysis
+} from '../types';
+
+type PartialAnalysis = Omit<TransactionAnalysis, 'summary'>;
+
+export interface AnalysisSource {
+  network: Network;
+  cluster: string;
+  signature: string;
+  blockTime: string;
+  // Set when `tx` was reconstructed from simulateTransaction rather than fetched from the ledger
+  simulated: boolean;
+}
+
+// Transaction analysis
+export async function analyzeTransaction(txSignature: string, cluster: string): Promise<TransactionAnalysis> {
+  console.log(`Analyzing transaction: ${txSignature} on cluster: ${cluster}`);
+  const chainManager = ChainManager.getInstance();
+
+  try {
+    const [connection, network] = await Promise.all([
+      chainManager.getConnection(cluster),
+      chainManager.getNetwork(cluster)
+    ]);
+    
+    if (!network) throw new Error(`Network ${cluster} not found`);
+
+    // Finalized transactions and blocks never change, so they are cached for good
+    const cache = CacheManager.getInstance();
+    let finalized: Promise<boolean> | null = null;
+    const ttlOnceFinalized = async (value: unknown) => {
+      if (!value) return 'skip' as const;
+      finalized = finalized || isFinalizedSlot(connection, (value as { slot: number }).slot);
+      return await finalized ? 'permanent' as const : 'skip' as const;
+    };
+
+    const tx = await cache.getOrLoad(
+      cacheKey('transaction', connection, txSignature),
+      () => connection.getParsedTransaction(txSignature, { maxSupportedTransactionVersion: 0 }),
+      ttlOnceFinalized
+    );
+    
+    if (!tx) throw new Error('Transaction not found');
+
+    // Only the header is kept; the full block is far too large to cache
+    const block = await cache.getOrLoad(
+      cacheKey('block', connection, tx.slot.toString()),
+      async () => {
+        const block = await connection.getBlock(tx.slot, { maxSupportedTransactionVersion: 0 });
+        return block && {
+          slot: tx.slot,
+          blockhash: block.blockhash,
+          parentSlot: block.parentSlot,
+          blockTime: block.blockTime
+        };
+      },
+      ttlOnceFinalized
+    );
+    if (!block) throw new Error('Block not found');
+
+    return await buildTransactionAnalysis(connection, tx, {
+      network,
+      cluster,
+      signature: txSignature,
+      blockTime: block.blockTime ? new Date(block.blockTime * 1000).toISOString() : 'unknown',
+      simulated: false
+    });
+  } catch (error) {
+    console.error('Transaction analysis error:', error);
+    throw error;
+  }
+}
+
+// Shared by landed and simulated transactions so both produce the same analysis shape
+export async function buildTransactionAnalysis(
+  connection: Connection,
+  tx: ParsedTransactionWithMeta,
+  source: AnalysisSource
+): Promise<TransactionAnalysis> {
+  const { network, cluster } = source;
+
+  const costAnalysis = analyzeFees(tx);
+  const analysis: PartialAnalysis = {
+    version: ANALYSIS_SCHEMA_VERSION,
+    network: {
+      name: network.name,
+      cluster: cluster,
+      currency: 'SOL',
+      slot: tx.slot,
+      blockTime: source.blockTime
+    },
+    transaction: {
+      signature: source.signature,
+      simulated: source.simulated,
+      feePayer: tx.transaction.message.accountKeys[0].pubkey.toString(),
+      recentBlockhash: tx.transaction.message.recentBlockhash,
+      version: tx.version ?? 'legacy',
+      status: tx.meta?.err ? 'Failed' : 'Success',
+      fee: tx.meta?.fee ? (tx.meta.fee / 1e9).toString() : 'unknown',
+      computeUnits: tx.meta?.computeUnitsConsumed?.toString() || 'unknown',
+    },
+    costAnalysis,
+    accounts: buildAccountTable(tx),
+    addressTableLookups: getAddressTableLookups(tx),
+    actionTypes: [],
+    transfers: [],
+    actions: [],
+    interactions: [],
+    programs: [],
+    securityInfo: [],
+    findings: [],
+    otherInstructions: [],
+    swaps: [],
+    // Ground truth for value movement, including transfers made through CPIs
+    balanceChanges: computeBalanceChanges(tx),
+    logs: tx.meta?.logMessages || [],
+    invocations: [],
+    computeBreakdown: buildComputeBreakdown([], costAnalysis),
+    failure: null
+  };
+
+  // Extract and classify instructions
+  if (tx.transaction.message.instructions.length > 0) {
+    const extractedInstructions = await classifyAndExtractInstructions(
+      tx as ParsedTransactionWithMeta,
+      connection
+    );
+
+    // Add instructions to analysis
+    analysis.actionTypes = [...analysis.actionTypes, ...extractedInstructions.types];
+    analysis.transfers = [...analysis.transfers, ...extractedInstructions.transfers];
+    analysis.actions = [...analysis.actions, ...extractedInstructions.actions];
+    analysis.interactions = [...analysis.interactions, ...extractedInstructions.programInteractions];
+    analysis.otherInstructions = [...analysis.otherInstructions, ...extractedInstructions.otherInstructions];
+    analysis.swaps = [...analysis.swaps, ...extractedInstructions.swaps];
+
+    try {
+      analysis.invocations = await buildInvocationTree(connection, tx, extractedInstructions.instructions);
+      analysis.computeBreakdown = buildComputeBreakdown(analysis.invocations, costAnalysis);
+    } catch (error) {
+      console.warn('Error building invocation tree:', error);
+    }
+  }
+
+  // Program deployment check
+  const deployedProgram = tx.transaction.message.instructions.find(
+    ix => ix.programId.toBase58() === BPF_UPGRADEABLE_LOADER_ID
+  );
+  if (deployedProgram) {
+    analysis.actionTypes.push("Program Deployment");
+  }
+
+  // Calculate average compute units for recent transactions
+  try {
+    const feePayer = analysis.transaction.feePayer;
+    const avgComputeUnits = await CacheManager.getInstance().getOrLoad(
+      cacheKey('averageComputeUnits', connection, feePayer),
+      async () => {
+        const recentTxs = await connection.getSignaturesForAddress(new PublicKey(feePayer), { limit: 5 });
+
+        const recentTxDetails = await Promise.all(
+          recentTxs.map(sig => connection.getParsedTransaction(sig.signature, {maxSupportedTransactionVersion: 0}))
+        );
+
+        return recentTxDetails.reduce((sum, tx) => {
+          return sum + (tx?.meta?.computeUnitsConsumed || 0);
+        }, 0) / recentTxDetails.length;
+      },
+      DEFAULT_CACHE_TTL_MS
+    );
+    
+    analysis.network.averageComputeUnits = avgComputeUnits.toString();
+  } catch (error) {
+    console.warn('Error getting average compute units:', error);
+  }
+
+  // Token-2022 extensions that give third parties control over holders' tokens
+  const flaggedMints = new Set<string>();
+  for (const transfer of analysis.transfers) {
+    const { address, extensions } = transfer.token;
+    if (!address || !extensions || flaggedMints.has(address)) continue;
+    flaggedMints.add(address);
+
+    if (extensions.permanentDelegate) {
+      analysis.securityInfo.push({
+        type: 'Warning',
+        message: `Token ${address} has a permanent delegate (${extensions.permanentDelegate}) that can transfer or burn tokens from any holder`,
+        address
+      });
+    }
+    if (extensions.transferHook?.programId) {
+      analysis.securityInfo.push({
+        type: 'Info',
+        message: `Token ${address} runs transfer hook program ${extensions.transferHook.programId} on every transfer`,
+        address
+      });
+    }
+  }
+
+  // Inspect every interacted program: existence, executability and who can still upgrade it
+  const inspections = await Promise.all(analysis.interactions.map(async address => {
+    try {
+      return await inspectProgram(connection, address, 0);
+    } catch (error) {
+      console.warn(`Error checking program at ${address}:`, error);
+      return null;
+    }
+  }));
+  analysis.programs = inspections.filter((inspection): inspection is ProgramInspection => inspection !== null);
+  analysis.securityInfo.push(...analysis.programs.flatMap(program => getProgramSecurityInfo(program, tx.slot)));
+
+  // Failing instruction, program and decoded error code
+  try {
+    analysis.failure = await diagnoseFailure(connection, tx);
+  } catch (error) {
+    console.warn('Error diagnosing transaction failure:', error);
+  }
+
+  // Name known counterparties before the risk rules look for scam labels
+  await applyLabels(analysis);
+
+  // Evidence-backed risk findings; the risk level is derived from these alone
+  analysis.findings = await RiskEngine.getInstance().evaluate({ tx, analysis });
+
+  // Add complexity and risk analysis
+  const summary: AnalysisSummary = {
+    totalTransfers: analysis.transfers.length,
+    uniqueTokens: new Set(analysis.transfers.map(t => t.token.address)).size,
+    uniquePrograms: analysis.interactions.length,
+    complexityScore: calculateComplexityScore(analysis),
+    riskLevel: deriveRiskLevel(analysis.findings),
+  };
+
+  return { ...analysis, summary };
+}
+
+// Attaches registry labels to transfer counterparties, accounts and interacted programs
+async function applyLabels(analysis: PartialAnalysis) {
+  const labels = await LabelRegistry.getInstance().getLabels([
+    ...analysis.accounts.map(account => account.address),
+    ...analysis.transfers.flatMap(transfer => [transfer.from, transfer.to]),
+    ...analysis.interactions
+  ]);
+  if (labels.size === 0) return;
+
+  analysis.accounts.forEach(account => {
+    account.label = labels.get(account.address);
+  });
+  analysis.transfers.forEach(transfer => {
+    transfer.fromLabel = labels.get(transfer.from);
+    transfer.toLabel = labels.get(transfer.to);
+  });
+  analysis.programs.forEach(program => {
+    program.label = labels.get(program.programId);
+  });
+}
+
+// Upgradeability findings for one interacted program; native programs ship with the validator
+function getProgramSecurityInfo(program: ProgramInspection, txSlot: number): SecurityInfo[] {
+  const { programId: address, programName } = program;
+  const label = programName ? `${programName} (${address})` : address;
+
+  if (!program.executable) {
+    return [{ type: 'Warning', message: `Address ${address} is not an executable program`, address }];
+  }
+  if (program.loader === 'Native') return [];
+  if (!program.upgradeable) {
+    return [{ type: 'Info', message: `Program ${label} is immutable`, address }];
+  }
+
+  const info: SecurityInfo[] = [{
+    type: 'Info',
+    message: `Program ${label} is upgradeable: ${program.upgradeAuthority} can change its code at any time`,
+    address
+  }];
+
+  if (program.lastDeployedSlot !== null && program.lastDeployedSlot > txSlot) {
+    info.push({
+      type: 'Info',
+      message: `Program ${label} was upgraded after this transaction (slot ${program.lastDeployedSlot}); its current code differs from what executed`,
+      address
+    });
+  }
+
+  return info;
+}
+
+// Helper function to calculate transaction complexity
+function calculateComplexityScore(analysis: PartialAnalysis): AnalysisSummary['complexityScore'] {
+  let score = 0;
+  
+  // Add points for different aspects of the transaction
+  score += analysis.transfers.length * 2;
+  score += analysis.interactions.length * 3;
+  score += analysis.securityInfo.filter(e => e.type === 'Warning').length * 2;
+  score += analysis.actionTypes.length > 1 ? 5 : 0;
+  
+  // Convert score to category
+  if (score <= 5) return 'Simple';
+  if (score <= 15) return 'Moderate';
+  if (score <= 30) return 'Complex';
+  return 'Very Complex';
+}
@@ -0,0 +1,225 @@
+import {
+  AccountInfo,
+  AddressLookupTableAccount,
+  Connection,
+  ParsedMessageAccount,
+  ParsedTransactionWithMeta,
+  PublicKey,
+  SimulatedTransactionAccountInfo,
+  TokenBalance,
+  VersionedTransaction
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { ChainManager } from './chainManager';
+import { buildTransactionAnalysis } from './transactionAnalyzer';
+import { parseCompiledInstruction } from './instructionParser';
+import { analyzeFees } from './feeAnalysis';
+import { formatUnits } from './index';
+import { TOKEN_PROGRAM_ID } from './decoders/token';
+import { TOKEN_2022_PROGRAM_ID } from './token2022Extensions';
+import { TransactionAnalysis } from '../types';
+
+// getMultipleAccounts accepts at most 100 keys per call
+const MULTIPLE_ACCOUNTS_LIMIT = 100;
+// spl-token Account: mint (32), owner (32), amount (u64), ...; Token-2022 appends an account type byte
+const TOKEN_ACCOUNT_SIZE = 165;
+const TOKEN_2022_ACCOUNT_TYPE_ACCOUNT = 2;
+const MINT_DECIMALS_OFFSET = 44;
+
+interface AccountSnapshot {
+  lamports: number;
+  owner: string;
+  data: Buffer;
+}
+
+interface TokenAccountState {
+  mint: string;
+  owner: string;
+  programId: string;
+  amount: bigint;
+}
+
+async function getAccounts(connection: Connection, keys: PublicKey[]): Promise<(AccountInfo<Buffer> | null)[]> {
+  const chunks: PublicKey[][] = [];
+  for (let i = 0; i < keys.length; i += MULTIPLE_ACCOUNTS_LIMIT) {
+    chunks.push(keys.slice(i, i + MULTIPLE_ACCOUNTS_LIMIT));
+  }
+  const results = await Promise.all(chunks.map(chunk => connection.getMultipleAccountsInfo(chunk)));
+  return results.flat();
+}
+
+function fromAccountInfo(account: AccountInfo<Buffer> | null): AccountSnapshot | null {
+  return account ? { lamports: account.lamports, owner: account.owner.toBase58(), data: account.data } : null;
+}
+
+function fromSimulatedAccount(account: SimulatedTransactionAccountInfo | null): AccountSnapshot | null {
+  if (!account) return null;
+  return { lamports: account.lamports, owner: account.owner, data: Buffer.from(account.data[0], 'base64') };
+}
+
+function readTokenAccount(snapshot: AccountSnapshot | null): TokenAccountState | null {
+  if (!snapshot || ![TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID].includes(snapshot.owner)) return null;
+  const { data } = snapshot;
+  if (data.length < TOKEN_ACCOUNT_SIZE) return null;
+  // Token-2022 mints with extensions are also longer than 165 bytes; the type byte tells them apart
+  if (data.length > TOKEN_ACCOUNT_SIZE && data[TOKEN_ACCOUNT_SIZE] !== TOKEN_2022_ACCOUNT_TYPE_ACCOUNT) return null;
+
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    programId: snapshot.owner,
+    amount: data.readBigUInt64LE(64)
+  };
+}
+
+function toTokenBalances(states: (TokenAccountState | null)[], decimals: Map<string, number>): TokenBalance[] {
+  const balances: TokenBalance[] = [];
+  states.forEach((state, accountIndex) => {
+    if (!state) return;
+    const mintDecimals = decimals.get(state.mint) ?? 0;
+    const uiAmountString = formatUnits(state.amount, mintDecimals);
+    balances.push({
+      accountIndex,
+      mint: state.mint,
+      owner: state.owner,
+      programId: state.programId,
+      uiTokenAmount: {
+        amount: state.amount.toString(),
+        decimals: mintDecimals,
+        uiAmount: Number(uiAmountString),
+        uiAmountString
+      }
+    });
+  });
+  return balances;
+}
+
+async function getMintDecimals(connection: Connection, mints: string[]): Promise<Map<string, number>> {
+  const accounts = await getAccounts(connection, mints.map(mint => new PublicKey(mint)));
+  const decimals = new Map<string, number>();
+  accounts.forEach((account, i) => {
+    if (account && account.data.length > MINT_DECIMALS_OFFSET) decimals.set(mints[i], account.data[MINT_DECIMALS_OFFSET]);
+  });
+  return decimals;
+}
+
+function decodeTransaction(serialized: string): VersionedTransaction {
+  try {
+    return VersionedTransaction.deserialize(new Uint8Array(Buffer.from(serialized, 'base64')));
+  } catch (error) {
+    throw new Error(`Invalid transaction: ${(error as Error).message}`);
+  }
+}
+
+// Explains a transaction before it is signed: simulates it against current state and rebuilds
+// the parsed transaction getParsedTransaction would return, so the usual analysis runs unchanged
+export async function simulateTransaction(serialized: string, cluster: string): Promise<TransactionAnalysis> {
+  console.log(`Simulating transaction on cluster: ${cluster}`);
+  const chainManager = ChainManager.getInstance();
+
+  try {
+    const [connection, network] = await Promise.all([
+      chainManager.getConnection(cluster),
+      chainManager.getNetwork(cluster)
+    ]);
+    if (!network) throw new Error(`Network ${cluster} not found`);
+
+    const transaction = decodeTransaction(serialized);
+    const { message } = transaction;
+
+    const lookupTables = await Promise.all(message.addressTableLookups.map(async lookup => {
+      const { value } = await connection.getAddressLookupTable(lookup.accountKey);
+      if (!value) throw new Error(`Address lookup table ${lookup.accountKey.toBase58()} not found`);
+      return value;
+    }));
+    const accountKeys = message.getAccountKeys({ addressLookupTableAccounts: lookupTables as AddressLookupTableAccount[] });
+    const keys = Array.from({ length: accountKeys.length }, (_, i) => accountKeys.get(i) as PublicKey);
+    const addresses = keys.map(key => key.toBase58());
+
+    const [preAccounts, simulation] = await Promise.all([
+      getAccounts(connection, keys),
+      // Unsigned transactions carry placeholder signatures and possibly a stale blockhash
+      connection.simulateTransaction(transaction, {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+        innerInstructions: true,
+        accounts: { encoding: 'base64', addresses }
+      })
+    ]);
+    const { context, value: result } = simulation;
+
+    const pre = preAccounts.map(fromAccountInfo);
+    const post = addresses.map((_, i) => fromSimulatedAccount(result.accounts?.[i] ?? null));
+    const preTokens = pre.map(readTokenAccount);
+    const postTokens = post.map(readTokenAccount);
+
+    const mints = Array.from(new Set([...preTokens, ...postTokens].filter(Boolean).map(state => state!.mint)));
+    const decimals = await getMintDecimals(connection, mints);
+
+    const staticKeyCount = accountKeys.staticAccountKeys.length;
+    const parsedAccountKeys: ParsedMessageAccount[] = keys.map((pubkey, i) => ({
+      pubkey,
+      signer: message.isAccountSigner(i),
+      writable: message.isAccountWritable(i),
+      source: i < staticKeyCount ? 'transaction' : 'lookupTable'
+    }));
+
+    const tx: ParsedTransactionWithMeta = {
+      slot: context.slot,
+      blockTime: Math.floor(Date.now() / 1000),
+      version: transaction.version,
+      transaction: {
+        signatures: transaction.signatures.map(signature => bs58.encode(signature)),
+        message: {
+          accountKeys: parsedAccountKeys,
+          instructions: message.compiledInstructions.map(instruction => parseCompiledInstruction(
+            keys[instruction.programIdIndex],
+            instruction.accountKeyIndexes.map(index => keys[index]),
+            instruction.data
+          )),
+          recentBlockhash: message.recentBlockhash,
+          addressTableLookups: message.addressTableLookups
+        }
+      },
+      meta: {
+        fee: 0,
+        err: result.err,
+        preBalances: pre.map(account => account?.lamports ?? 0),
+        postBalances: post.map(account => account?.lamports ?? 0),
+        preTokenBalances: toTokenBalances(preTokens, decimals),
+        postTokenBalances: toTokenBalances(postTokens, decimals),
+        innerInstructions: result.innerInstructions ?? [],
+        logMessages: result.logs ?? [],
+        computeUnitsConsumed: result.unitsConsumed,
+        loadedAddresses: {
+          writable: accountKeys.accountKeysFromLookups?.writable ?? [],
+          readonly: accountKeys.accountKeysFromLookups?.readonly ?? []
+        }
+      }
+    };
+
+    // The RPC prices the message against its blockhash; fall back to the Compute Budget math if it is stale
+    const { value: fee } = await connection.getFeeForMessage(message).catch(() => ({ value: null }));
+    if (fee !== null) {
+      tx.meta!.fee = fee;
+    } else {
+      const { baseFeeLamports, priorityFeeLamports } = analyzeFees(tx);
+      tx.meta!.fee = Number(baseFeeLamports) + Number(priorityFeeLamports);
+    }
+
+    // A zeroed first signature means the fee payer has not signed yet
+    const [firstSignature] = transaction.signatures;
+    const signed = firstSignature && firstSignature.some(byte => byte !== 0);
+
+    return await buildTransactionAnalysis(connection, tx, {
+      network,
+      cluster,
+      signature: signed ? bs58.encode(firstSignature) : 'unsigned',
+      blockTime: new Date().toISOString(),
+      simulated: true
+    });
+  } catch (error) {
+    console.error('Transaction simulation error:', error);
+    throw error;
+  }
+}
@@ -1,250 +1,232 @@
-import { Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
-import { createOpenAI } from '@ai-sdk/openai';
-import { streamText, tool } from 'ai';
+import { createDataStreamResponse, DataStreamWriter, streamText, tool } from 'ai';
 import { z } from 'zod';
 import type { NextRequest } from 'next/server';
 import { systemPrompt } from './systemPrompt';
 import { serializeBigInts } from './helpers';
+import { analyzeTransaction } from './helpers/transactionAnalyzer';
+import { analyzeAddress } from './helpers/addressAnalyzer';
+import { inspectProgram } from './helpers/programInspector';
 import { ChainManager } from './helpers/chainManager';
-import { TokenMetadataManager } from './helpers/tokensMetadataManager';
-import { TRANSFERS } from './types';
-import { classifyAndExtractInstructions } from './helpers/instructionProcessor';
-
-// Transaction analysis
-async function analyzeTransaction(txSignature: string, cluster: string) {
-  console.log(`Analyzing transaction: ${txSignature} on cluster: ${cluster}`);
-  const chainManager = ChainManager.getInstance();
-
+import { ModelManager, SelectedModel } from './helpers/modelManager';
+import { simulateTransaction } from './helpers/transactionSimulator';
+import { buildFlowDiagram } from './helpers/flowDiagram';
+import { analyzeBatch } from './helpers/batchAnalyzer';
+import { getAddressHistory } from './helpers/addressHistory';
+import { MAX_BATCH_SIZE, MAX_HISTORY_LIMIT, TransactionAnalysis } from './types';
+import type { Network } from './helpers/chainManager';
+
+// Transfer flow chart for the diagram panel, streamed as a data part next to the tool result
+function writeFlowDiagram(dataStream: DataStreamWriter, analysis: TransactionAnalysis) {
   try {
-    const [connection, network] = await Promise.all([
-      chainManager.getConnection(cluster),
-      chainManager.getNetwork(cluster)
-    ]);
-    
-    if (!network) throw new Error(`Network ${cluster} not found`);
-
-    const tx = await connection.getParsedTransaction(txSignature, {
-      maxSupportedTransactionVersion: 0,
-    });
-    
-    if (!tx) throw new Error('Transaction not found');
-
-    const block = await connection.getBlock(tx.slot, { maxSupportedTransactionVersion: 0 });
-    if (!block) throw new Error('Block not found');
-
-    const analysis = {
-      network: {
-        name: network.name,
-        cluster: cluster,
-        currency: 'SOL',
-        slot: tx.slot,
-        blockTime: block.blockTime ? new Date(block.blockTime * 1000).toISOString() : 'unknown'
-      },
-      transaction: {
-        signature: txSignature,
-        feePayer: tx.transaction.message.accountKeys[0].pubkey.toString(),
-        recentBlockhash: tx.transaction.message.recentBlockhash,
-        status: tx.meta?.err ? 'Failed' : 'Success',
-        fee: tx.meta?.fee ? (tx.meta.fee / 1e9).toString() : 'unknown',
-        computeUnits: tx.meta?.computeUnitsConsumed?.toString() || 'unknown',
-      },
-      actionTypes: [] as string[],
-      transfers: [] as TRANSFERS[],
-      actions: [] as any[],
-      interactions: [] as string[],
-      securityInfo: [] as any[],
-      otherInstructions: [] as any[],
-      summary: {} as any
-    };
-
-    // SOL transfer check
-    if (tx.meta?.preBalances && tx.meta?.postBalances) {
-      const accountKeys = tx.transaction.message.accountKeys;
-      for (let i = 0; i < accountKeys.length; i++) {
-        const preBalance = tx.meta.preBalances[i];
-        const postBalance = tx.meta.postBalances[i];
-        const balanceDiff = postBalance - preBalance;
-        
-        if (Math.abs(balanceDiff) > 0 && i !== 0) { // Exclude fee payer
-          analysis.actionTypes.push('Native Transfer');
-          analysis.transfers.push({
-            tokenType: 'Native',
-            token: {
-              symbol: 'SOL',
-              decimals: 9
-            },
-            from: balanceDiff < 0 ? accountKeys[i].pubkey.toString() : '',
-            to: balanceDiff > 0 ? accountKeys[i].pubkey.toString() : '',
-            value: Math.abs(balanceDiff / 1e9).toString()
-          });
-        }
-      }
-    }
-
-    // Extract and classify instructions
-    if (tx.transaction.message.instructions.length > 0) {
-      const extractedInstructions = await classifyAndExtractInstructions(
-        tx as ParsedTransactionWithMeta,
-        connection
-      );
-
-      // Add instructions to analysis
-      analysis.actionTypes = [...analysis.actionTypes, ...extractedInstructions.types];
-      analysis.transfers = [...analysis.transfers, ...extractedInstructions.transfers];
-      analysis.actions = [...analysis.actions, ...extractedInstructions.actions];
-      analysis.interactions = [...analysis.interactions, ...extractedInstructions.programInteractions];
-      analysis.otherInstructions = [...analysis.otherInstructions, ...extractedInstructions.otherInstructions];
-    }
-
-    // Program deployment check
-    const deployedProgram = tx.transaction.message.instructions.find(
-      ix => ix.programId.equals(new PublicKey('BPFLoaderUpgradeab1e11111111111111111111111'))
-    );
-    if (deployedProgram) {
-      analysis.actionTypes.push("Program Deployment");
-    }
-
-    // Calculate average compute units for recent transactions
-    try {
-      const recentTxs = await connection.getSignaturesForAddress(
-        new PublicKey(analysis.transaction.feePayer),
-        { limit: 5 }
-      );
-      
-      const recentTxDetails = await Promise.all(
-        recentTxs.map(sig => connection.getParsedTransaction(sig.signature, {maxSupportedTransactionVersion: 0}))
-      );
-      
-      const avgComputeUnits = recentTxDetails.reduce((sum, tx) => {
-        return sum + (tx?.meta?.computeUnitsConsumed || 0);
-      }, 0) / recentTxDetails.length;
-      
-      analysis.network.averageComputeUnits = avgComputeUnits.toString();
-    } catch (error) {
-      console.warn('Error getting average compute units:', error);
-    }
-
-    // Check program verification status
-    try {
-      const verificationPromises = analysis.interactions.map(async (address: string) => {
-        try {
-          const programInfo = await connection.getAccountInfo(new PublicKey(address));
-          if (!programInfo?.executable) {
-            return {
-              type: 'Warning',
-              message: `Address ${address} is not an executable program`
-            };
-          }
-        } catch (error) {
-          console.warn(`Error checking program at ${address}:`, error);
-        }
-        return null;
-      });
-
-      const verificationResults = await Promise.all(verificationPromises);
-      analysis.securityInfo.push(...verificationResults.filter(result => result !== null));
-    } catch (error) {
-      console.warn('Error checking program verification:', error);
-    }
-
-    // Add complexity and risk analysis
-    analysis.summary = {
-      totalTransfers: analysis.transfers.length,
-      uniqueTokens: new Set(analysis.transfers.map(t => t.token.address)).size,
-      uniquePrograms: analysis.interactions.length,
-      complexityScore: calculateComplexityScore(analysis),
-      riskLevel: calculateRiskLevel(analysis),
-    };
-
-    return analysis;
+    const diagram = buildFlowDiagram(analysis);
+    if (diagram.edgeCount > 0) dataStream.writeData(diagram);
   } catch (error) {
-    console.error('Transaction analysis error:', error);
-    throw error;
+    console.warn('Error building flow diagram:', error);
   }
 }
 
-// Helper function to calculate transaction complexity
-function calculateComplexityScore(analysis: any): string {
-  let score = 0;
-  
-  // Add points for different aspects of the transaction
-  score += analysis.transfers.length * 2;
-  score += analysis.interactions.length * 3;
-  score += analysis.securityInfo.length * 2;
-  score += analysis.actionTypes.length > 1 ? 5 : 0;
-  
-  // Convert score to category
-  if (score <= 5) return 'Simple';
-  if (score <= 15) return 'Moderate';
-  if (score <= 30) return 'Complex';
-  return 'Very Complex';
+// Tool `cluster` parameters only accept registered networks, so custom clusters show up for the model too
+function clusterParameter(networks: Network[]) {
+  const clusters = networks.map(network => network.cluster);
+  const names = networks.map(network => `${network.cluster} = ${network.name}`).join(', ');
+  return z.enum(clusters as [string, ...string[]]).describe(`The Solana cluster (${names})`);
 }
 
-// Helper function to assess transaction risk level
-function calculateRiskLevel(analysis: any): string {
-  let riskFactors = 0;
-  
-  // Check various risk factors
-  if (analysis.interactions.length > 3) riskFactors++;
-  if (analysis.actionTypes.includes('Swap')) riskFactors++;
-  if (analysis.securityInfo.some(e => e.type === 'Warning')) riskFactors += 2;
-  if (analysis.transfers.length > 5) riskFactors++;
-  if (analysis.actionTypes.length > 1) riskFactors++;
-  
-  // Convert risk factors to level
-  if (riskFactors === 0) return 'Low';
-  if (riskFactors <= 2) return 'Medium';
-  return 'High';
+// The cluster picked in the UI is the default; an explicitly named cluster still wins
+function clusterHint(network: Network | undefined): string {
+  return network
+    ? `The user has selected ${network.name} (cluster: ${network.cluster}). Use this cluster unless the user names a different one.`
+    : 'No cluster was selected. Use mainnet-beta unless the user names a different one.';
 }
 
-// Create OpenAI instance
-const openai = createOpenAI({
-  apiKey: process.env.OPENAI_API_KEY ?? ''
-});
-
 // API Route handler
 export async function POST(request: NextRequest) {
   try {
-    const { messages } = await request.json();
+    const { messages, cluster: selectedCluster, model: selectedModel } = await request.json();
+
+    // Asking for an unknown or unconfigured model is the caller's mistake; having none configured is ours
+    let model: SelectedModel;
+    try {
+      model = await ModelManager.getInstance().getModel(selectedModel);
+    } catch (error) {
+      if (!selectedModel) throw error;
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
 
-    const result = streamText({
-      model: openai('gpt-4o-mini'),
-      messages: [
-        {
-          role: 'system',
-          content: systemPrompt
-        },
-        ...messages
-      ],
-      tools: {
-        analyzeTx: tool({
-          description: 'Analyze a Solana blockchain transaction with detailed token and instruction parsing',
-          parameters: z.object({
-            txSignature: z.string().describe('The transaction signature to analyze'),
-            cluster: z.string().describe('The Solana cluster (mainnet-beta, devnet, testnet)'),
-          }),
-          execute: async ({ txSignature, cluster }) => {
-            try {
-              const analysis = await analyzeTransaction(txSignature, cluster);
-              const serializedAnalysis = serializeBigInts(analysis);
-              return {
-                success: true,
-                data: JSON.stringify(serializedAnalysis),
-              };
-            } catch (error) {
-              return {
-                success: false,
-                error: (error as Error).message,
-              };
-            }
+    const networks = await ChainManager.getInstance().getNetworks();
+    if (networks.length === 0) {
+      throw new Error('No networks configured');
+    }
+    const clusterSchema = clusterParameter(networks);
+    const selectedNetwork = networks.find(network => network.cluster === selectedCluster);
+
+    return createDataStreamResponse({
+      execute: dataStream => {
+        const result = streamText({
+          model: model.model,
+          messages: [
+            {
+              role: 'system',
+              content: systemPrompt
+            },
+            {
+              role: 'system',
+              content: clusterHint(selectedNetwork)
+            },
+            ...messages
+          ],
+          tools: {
+            analyzeTx: tool({
+              description: 'Analyze a Solana blockchain transaction with detailed token and instruction parsing',
+              parameters: z.object({
+                txSignature: z.string().describe('The transaction signature to analyze'),
+                cluster: clusterSchema,
+              }),
+              execute: async ({ txSignature, cluster }) => {
+                try {
+                  const analysis = await analyzeTransaction(txSignature, cluster);
+                  writeFlowDiagram(dataStream, analysis);
+                  const serializedAnalysis = serializeBigInts(analysis);
+                  return {
+                    success: true,
+                    data: JSON.stringify(serializedAnalysis),
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error: (error as Error).message,
+                  };
+                }
+              },
+            }),
+            analyzeBatch: tool({
+              description: 'Analyze several Solana transactions at once (e.g. every transaction in an incident or a bot\'s recent trades) and report per-transaction rows plus aggregate flows per mint, programs touched, failure rate, fees and the highest-risk transactions',
+              parameters: z.object({
+                txSignatures: z.array(z.string()).min(1).max(MAX_BATCH_SIZE).describe('The transaction signatures to analyze'),
+                cluster: clusterSchema,
+              }),
+              execute: async ({ txSignatures, cluster }) => {
+                try {
+                  // Full analyses would not fit in the context; rows and the aggregate are enough to explain a batch
+                  const { analyses, ...report } = await analyzeBatch(txSignatures, cluster);
+                  return {
+                    success: true,
+                    data: JSON.stringify(report),
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error: (error as Error).message,
+                  };
+                }
+              },
+            }),
+            simulateTx: tool({
+              description: 'Explain a transaction before it is signed: simulate a base64 serialized (unsigned or partially signed) transaction and analyze the predicted result',
+              parameters: z.object({
+                transaction: z.string().describe('The base64 serialized transaction'),
+                cluster: clusterSchema,
+              }),
+              execute: async ({ transaction, cluster }) => {
+                try {
+                  const analysis = await simulateTransaction(transaction, cluster);
+                  writeFlowDiagram(dataStream, analysis);
+                  return {
+                    success: true,
+                    data: JSON.stringify(serializeBigInts(analysis)),
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error: (error as Error).message,
+                  };
+                }
+              },
+            }),
+            analyzeAddress: tool({
+              description: 'Analyze a Solana address: classify the account (wallet, token account, mint, program, stake account...) and report balances, owner, token holdings and recent signatures',
+              parameters: z.object({
+                address: z.string().describe('The base58 account address to analyze'),
+                cluster: clusterSchema,
+              }),
+              execute: async ({ address, cluster }) => {
+                try {
+                  const analysis = await analyzeAddress(address, cluster);
+                  return {
+                    success: true,
+                    data: JSON.stringify(serializeBigInts(analysis)),
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error: (error as Error).message,
+                  };
+                }
+              },
+            }),
+            getAddressHistory: tool({
+              description: 'Build an activity timeline for a Solana address: page through its transactions (optionally within a date range), classify each (swap, liquidity, transfer, NFT, stake, failed) and report counterparties, volume per token, most-used programs and activity per day',
+              parameters: z.object({
+                address: z.string().describe('The base58 account address'),
+                cluster: clusterSchema,
+                from: z.string().optional().describe('Start of the date range, ISO date or datetime'),
+                to: z.string().optional().describe('End of the date range, ISO date or datetime (a date includes the whole day)'),
+                before: z.string().optional().describe('Continue after this signature: the nextBefore of a previous call'),
+                until: z.string().optional().describe('Stop at this signature'),
+                limit: z.number().int().min(1).max(MAX_HISTORY_LIMIT).optional().describe('Transactions per page (default 50)'),
+              }),
+              execute: async ({ address, cluster, ...options }) => {
+                try {
+                  const history = await getAddressHistory(address, cluster, options);
+                  return {
+                    success: true,
+                    data: JSON.stringify(serializeBigInts(history)),
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error: (error as Error).message,
+                  };
+                }
+              },
+            }),
+            inspectProgram: tool({
+              description: 'Inspect a Solana program: upgrade authority (or immutable), last deployed slot, binary size and recent upgrade/SetAuthority transactions',
+              parameters: z.object({
+                programId: z.string().describe('The program address to inspect'),
+                cluster: clusterSchema,
+              }),
+              execute: async ({ programId, cluster }) => {
+                try {
+                  const connection = await ChainManager.getInstance().getConnection(cluster);
+                  const inspection = await inspectProgram(connection, programId);
+                  return {
+                    success: true,
+                    data: JSON.stringify(inspection),
+                  };
+                } catch (error) {
+                  return {
+                    success: false,
+                    error: (error as Error).message,
+                  };
+                }
+              },
+            }),
           },
-        }),
+          temperature: model.temperature,
+          maxSteps: 5,
+        });
+
+        result.mergeIntoDataStream(dataStream);
       },
-      temperature: 0.7,
-      maxSteps: 5,
+      onError: error => {
+        console.error('Stream Error:', error);
+        return 'Internal Server Error';
+      }
     });
-
-    return result.toDataStreamResponse();
   } catch (error) {
     console.error('API Error:', error);
     return new Response(JSON.stringify({ error: 'Internal Server Error' }), {
@@ -254,5 +236,6 @@ export async function POST(request: NextRequest) {
   }
 }
 
-export const runtime = 'edge';
-export const maxDuration = 15;
\ No newline at end of file
+export const runtime = 'nodejs';
+// Batch analyses need more than a single transaction
+export const maxDuration = 60;
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { ANALYSIS_SCHEMA_VERSION } from './analysis';
+import { AddressLabelSchema } from './addressLabel';
+
+export const ADDRESS_CLASSIFICATIONS = [
+  'System Wallet',
+  'Token Account',
+  'Mint',
+  'Program',
+  'Program Data',
+  'Stake Account',
+  'Program-Owned Account',
+  'Not Found',
+] as const;
+
+export const TokenHoldingSchema = z.object({
+  tokenAccount: z.string(),
+  mint: z.string(),
+  symbol: z.string().optional(),
+  amount: z.string(),
+  decimals: z.number(),
+  tokenProgram: z.enum(['Token', 'Token-2022']),
+});
+
+export const RecentSignatureSchema = z.object({
+  signature: z.string(),
+  slot: z.number(),
+  blockTime: z.string().nullable(),
+  status: z.enum(['Success', 'Failed']),
+  memo: z.string().nullable(),
+});
+
+export const AddressAnalysisSchema = z.object({
+  version: z.literal(ANALYSIS_SCHEMA_VERSION),
+  address: z.string(),
+  cluster: z.string(),
+  label: AddressLabelSchema.optional(),
+  classification: z.enum(ADDRESS_CLASSIFICATIONS),
+  owner: z.string().nullable(),
+  ownerName: z.string().optional(),
+  lamports: z.string(),
+  sol: z.string(),
+  dataSize: z.number(),
+  executable: z.boolean(),
+  // Off-curve addresses can only be PDAs; wallets are always on the curve
+  isOnCurve: z.boolean(),
+  // Class-specific fields from the parsed account (mint supply, token owner, stake delegation...)
+  details: z.record(z.unknown()),
+  tokenHoldings: z.array(TokenHoldingSchema),
+  recentSignatures: z.array(RecentSignatureSchema),
+});
+
+export type AddressClassification = typeof ADDRESS_CLASSIFICATIONS[number];
+export type TokenHolding = z.infer<typeof TokenHoldingSchema>;
+export type RecentSignature = z.infer<typeof RecentSignatureSchema>;
+export type AddressAnalysis = z.infer<typeof AddressAnalysisSchema>;
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { AddressLabelSchema } from './addressLabel';
+import { MintFlowSchema } from './batch';
+
+export const DEFAULT_HISTORY_LIMIT = 50;
+export const MAX_HISTORY_LIMIT = 200;
+
+// Failed wins over everything else; a transaction that both swaps and transfers counts as a swap, and one
+// that also adds or removes pool liquidity (a zap) as liquidity
+export const HISTORY_CATEGORIES = ['Swap', 'Liquidity', 'NFT', 'Stake', 'Transfer', 'Failed', 'Other'] as const;
+
+// The address's own net change in one mint
+export const HistoryBalanceChangeSchema = z.object({
+  mint: z.string(),
+  symbol: z.string().optional(),
+  change: z.string(),
+});
+
+export const HistoryEntrySchema = z.object({
+  signature: z.string(),
+  slot: z.number(),
+  blockTime: z.string().nullable(),
+  status: z.enum(['Success', 'Failed']),
+  category: z.enum(HISTORY_CATEGORIES),
+  actionTypes: z.array(z.string()),
+  programs: z.array(z.string()),
+  counterparties: z.array(z.string()),
+  changes: z.array(HistoryBalanceChangeSchema),
+  memo: z.string().nullable(),
+});
+
+export const CounterpartySchema = z.object({
+  address: z.string(),
+  label: AddressLabelSchema.optional(),
+  transactions: z.number(),
+  // Transactions in which the address sent to / received from this counterparty
+  sent: z.number(),
+  received: z.number(),
+});
+
+export const ProgramActivitySchema = z.object({
+  programId: z.string(),
+  programName: z.string().optional(),
+  transactions: z.number(),
+});
+
+export const DailyActivitySchema = z.object({
+  // UTC date, YYYY-MM-DD
+  date: z.string(),
+  transactions: z.number(),
+  failed: z.number(),
+  categories: z.record(z.enum(HISTORY_CATEGORIES), z.number()),
+});
+
+export const AddressHistorySchema = z.object({
+  address: z.string(),
+  cluster: z.string(),
+  // Requested range as ISO dates; null when open-ended
+  from: z.string().nullable(),
+  to: z.string().nullable(),
+  // Newest first
+  entries: z.array(HistoryEntrySchema),
+  counterparties: z.array(CounterpartySchema),
+  // Inflow and outflow of the address itself, per mint
+  volume: z.array(MintFlowSchema),
+  programs: z.array(ProgramActivitySchema),
+  // Oldest day first
+  daily: z.array(DailyActivitySchema),
+  // Pass as `before` to load the next (older) page; null once the range or the history is exhausted
+  nextBefore: z.string().nullable(),
+  // Signatures looked at, including the ones outside the date range
+  scanned: z.number(),
+});
+
+export type HistoryCategory = typeof HISTORY_CATEGORIES[number];
+export type HistoryBalanceChange = z.infer<typeof HistoryBalanceChangeSchema>;
+export type HistoryEntry = z.infer<typeof HistoryEntrySchema>;
+export type Counterparty = z.infer<typeof CounterpartySchema>;
+export type ProgramActivity = z.infer<typeof ProgramActivitySchema>;
+export type DailyActivity = z.infer<typeof DailyActivitySchema>;
+export type AddressHistory = z.infer<typeof AddressHistorySchema>;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+
+export const ADDRESS_LABEL_CATEGORIES = [
+  'cex',
+  'protocol',
+  'protocol-vault',
+  'treasury',
+  'scam',
+  'other',
+] as const;
+
+export const AddressLabelSchema = z.object({
+  name: z.string(),
+  category: z.enum(ADDRESS_LABEL_CATEGORIES),
+  // Labels file the entry came from
+  source: z.string().optional(),
+});
+
+export type AddressLabelCategory = typeof ADDRESS_LABEL_CATEGORIES[number];
+export type AddressLabel = z.infer<typeof AddressLabelSchema>;
@@ -0,0 +1,402 @@
+import { z } from 'zod';
+import { ProgramInspectionSchema } from './programInspection';
+import { AddressLabelSchema } from './addressLabel';
+
+// Bump the major version on any breaking change to the shape below (addresses share it). 2.0.0 made these required:
+// transaction.simulated and .version, costAnalysis, accounts, addressTableLookups, programs, findings, swaps,
+// balanceChanges, logs, invocations, computeBreakdown and failure; transfer labels and fees are optional additions
+export const ANALYSIS_SCHEMA_VERSION = '2.0.0';
+
+export const Token2022ExtensionsSchema = z.object({
+  transferFee: z.object({
+    feeBasisPoints: z.number(),
+    maximumFee: z.string(),
+    epoch: z.number().optional(),
+    withheldAmount: z.string(),
+    configAuthority: z.string().nullable(),
+    withdrawWithheldAuthority: z.string().nullable(),
+  }).optional(),
+  transferHook: z.object({
+    programId: z.string().nullable(),
+    authority: z.string().nullable(),
+  }).optional(),
+  confidentialTransfer: z.object({
+    authority: z.string().nullable(),
+    autoApproveNewAccounts: z.boolean(),
+    auditorElgamalPubkey: z.string().nullable(),
+  }).optional(),
+  permanentDelegate: z.string().nullable().optional(),
+  nonTransferable: z.boolean().optional(),
+  mintCloseAuthority: z.string().nullable().optional(),
+  metadataPointer: z.object({
+    authority: z.string().nullable(),
+    metadataAddress: z.string().nullable(),
+  }).optional(),
+  // Names of extensions present on the mint but not summarized above
+  other: z.array(z.string()),
+});
+
+export const TokenInfoSchema = z.object({
+  address: z.string().optional(),
+  type: z.string().optional(),
+  name: z.string().optional(),
+  symbol: z.string().optional(),
+  decimals: z.number().optional(),
+  supply: z.string().optional(),
+  uri: z.string().optional(),
+  isNFT: z.boolean().optional(),
+  tokenProgram: z.enum(['Token', 'Token-2022']).optional(),
+  metadataSource: z.enum(['Metaplex', 'Token-2022']).optional(),
+  extensions: Token2022ExtensionsSchema.optional(),
+  error: z.string().optional(),
+}).passthrough();
+
+export const TransferSchema = z.object({
+  tokenType: z.enum(['Native', 'SPL', 'NFT']),
+  token: TokenInfoSchema,
+  from: z.string(),
+  to: z.string(),
+  fromLabel: AddressLabelSchema.optional(),
+  toLabel: AddressLabelSchema.optional(),
+  value: z.string().optional(),
+  // Token-2022 transfer fee withheld from `value`, in UI units
+  fee: z.string().optional(),
+  tokenId: z.string().optional(),
+  tokenIds: z.array(z.string()).optional(),
+  amounts: z.array(z.string()).optional(),
+  operator: z.string().optional(),
+});
+
+export interface InstructionDetail {
+  programId: string;
+  programName: string;
+  instructionName: string;
+  params: Record<string, unknown>;
+  innerInstructions?: InstructionDetail[];
+}
+
+export const InstructionDetailSchema: z.ZodType<InstructionDetail> = z.lazy(() =>
+  z.object({
+    programId: z.string(),
+    programName: z.string(),
+    instructionName: z.string(),
+    params: z.record(z.unknown()),
+    innerInstructions: z.array(InstructionDetailSchema).optional(),
+  })
+);
+
+// A "Program data:" payload; name and fields are set when the program's Anchor IDL decodes it
+export const ProgramEventSchema = z.object({
+  data: z.string(),
+  name: z.string().optional(),
+  fields: z.record(z.unknown()).optional(),
+});
+
+export const INVOCATION_STATUSES = ['Success', 'Failed', 'Unknown'] as const;
+
+// One program invocation rebuilt from the logs, with the decoded instruction that triggered it
+export interface InvocationNode {
+  programId: string;
+  programName?: string;
+  // 1 for top-level instructions, 2+ for CPIs
+  depth: number;
+  instructionIndex: number;
+  // Position among the top-level instruction's inner instructions; unset on the top-level node
+  innerInstructionIndex?: number;
+  instructionName?: string;
+  params?: Record<string, unknown>;
+  // Unknown when the logs were truncated before the invocation returned
+  status: typeof INVOCATION_STATUSES[number];
+  error?: string;
+  computeUnitsConsumed: number | null;
+  computeUnitsLimit: number | null;
+  logs: string[];
+  events: z.infer<typeof ProgramEventSchema>[];
+  returnData?: string;
+  children: InvocationNode[];
+}
+
+export const InvocationNodeSchema: z.ZodType<InvocationNode> = z.lazy(() =>
+  z.object({
+    programId: z.string(),
+    programName: z.string().optional(),
+    depth: z.number(),
+    instructionIndex: z.number(),
+    innerInstructionIndex: z.number().optional(),
+    instructionName: z.string().optional(),
+    params: z.record(z.unknown()).optional(),
+    status: z.enum(INVOCATION_STATUSES),
+    error: z.string().optional(),
+    computeUnitsConsumed: z.number().nullable(),
+    computeUnitsLimit: z.number().nullable(),
+    logs: z.array(z.string()),
+    events: z.array(ProgramEventSchema),
+    returnData: z.string().optional(),
+    children: z.array(InvocationNodeSchema),
+  })
+);
+
+export const SecurityInfoSchema = z.object({
+  type: z.enum(['Warning', 'Info']),
+  message: z.string(),
+  address: z.string().optional(),
+});
+
+export const RISK_SEVERITIES = ['Low', 'Medium', 'High'] as const;
+
+// Output of one risk rule, with the instruction that triggered it as evidence
+export const RiskFindingSchema = z.object({
+  ruleId: z.string(),
+  severity: z.enum(RISK_SEVERITIES),
+  title: z.string(),
+  explanation: z.string(),
+  // Top-level instruction index; null for transaction-wide findings
+  instructionIndex: z.number().nullable(),
+  // Position within that instruction's inner instructions, for findings raised by a CPI
+  innerInstructionIndex: z.number().optional(),
+  address: z.string().optional(),
+});
+
+export const FAILURE_ERROR_SOURCES = ['System', 'SPL Token', 'Associated Token', 'Anchor', 'IDL', 'Program Log', 'Runtime', 'Unknown'] as const;
+
+// Why a failed (or failing simulated) transaction did not go through
+export const FailureDiagnosisSchema = z.object({
+  // Raw `meta.err` as returned by the RPC
+  error: z.string(),
+  // InstructionError carries the failing instruction; other TransactionErrors are transaction-wide
+  errorType: z.enum(['InstructionError', 'TransactionError']),
+  instructionIndex: z.number().nullable(),
+  // The program that actually failed, which may be a CPI callee of the top-level instruction
+  programId: z.string().nullable(),
+  programName: z.string().optional(),
+  // Invocation depth of the failing program: 1 for the top-level instruction, 2+ inside CPIs
+  cpiDepth: z.number().nullable(),
+  // Custom program error code, when the program returned one
+  code: z.number().nullable(),
+  errorName: z.string(),
+  message: z.string(),
+  source: z.enum(FAILURE_ERROR_SOURCES),
+  // Log lines of the failing instruction that explain the failure
+  logs: z.array(z.string()),
+});
+
+export const AddressTableLookupSchema = z.object({
+  accountKey: z.string(),
+  writableIndexes: z.array(z.number()),
+  readonlyIndexes: z.array(z.number()),
+});
+
+export const AccountEntrySchema = z.object({
+  index: z.number(),
+  address: z.string(),
+  signer: z.boolean(),
+  writable: z.boolean(),
+  source: z.enum(['static', 'lookupTable']),
+  // Set when the address was loaded from an address lookup table
+  lookupTable: z.string().optional(),
+  lookupTableIndex: z.number().optional(),
+  preLamports: z.string(),
+  postLamports: z.string(),
+  label: AddressLabelSchema.optional(),
+});
+
+export const CostAnalysisSchema = z.object({
+  baseFeeLamports: z.string(),
+  priorityFeeLamports: z.string(),
+  totalFeeLamports: z.string(),
+  totalFeeSol: z.string(),
+  // Micro-lamports per compute unit
+  computeUnitPrice: z.string(),
+  computeUnitLimit: z.number(),
+  computeUnitLimitSource: z.enum(['instruction', 'default']),
+  computeUnitsConsumed: z.number().nullable(),
+  unusedComputeUnits: z.number().nullable(),
+  unusedComputeUnitsPercent: z.number().nullable(),
+  heapFrameBytes: z.number().optional(),
+  loadedAccountsDataSizeLimit: z.number().optional(),
+});
+
+// One invocation in the compute breakdown; units include CPIs, selfUnits exclude them.
+// Builtin programs do not log their usage, so their units are null and counted in the caller.
+export interface ComputeFrame {
+  programId: string;
+  programName?: string;
+  instructionName?: string;
+  depth: number;
+  instructionIndex: number;
+  innerInstructionIndex?: number;
+  units: number | null;
+  selfUnits: number | null;
+  children: ComputeFrame[];
+}
+
+export const ComputeFrameSchema: z.ZodType<ComputeFrame> = z.lazy(() =>
+  z.object({
+    programId: z.string(),
+    programName: z.string().optional(),
+    instructionName: z.string().optional(),
+    depth: z.number(),
+    instructionIndex: z.number(),
+    innerInstructionIndex: z.number().optional(),
+    units: z.number().nullable(),
+    selfUnits: z.number().nullable(),
+    children: z.array(ComputeFrameSchema),
+  })
+);
+
+export const ProgramComputeUsageSchema = z.object({
+  programId: z.string(),
+  programName: z.string().optional(),
+  invocations: z.number(),
+  // Units spent in the program's own code, excluding the programs it called
+  selfUnits: z.number(),
+  // Share of totalUnits
+  percent: z.number(),
+});
+
+export const ComputeBreakdownSchema = z.object({
+  totalUnits: z.number().nullable(),
+  limit: z.number(),
+  // Units not reported by any logged invocation: builtin top-level instructions, precompiles, truncated logs
+  unattributedUnits: z.number(),
+  // One frame per top-level instruction
+  frames: z.array(ComputeFrameSchema),
+  // Heaviest programs first
+  programs: z.array(ProgramComputeUsageSchema),
+});
+
+export const SwapHopSchema = z.object({
+  programId: z.string(),
+  programName: z.string(),
+  inputMint: z.string(),
+  inputAmount: z.string(),
+  outputMint: z.string(),
+  outputAmount: z.string(),
+});
+
+export const SwapActionSchema = z.object({
+  protocol: z.string(),
+  programId: z.string(),
+  instructionIndex: z.number(),
+  user: z.string(),
+  inputMint: z.string(),
+  inputSymbol: z.string().optional(),
+  inputAmount: z.string(),
+  outputMint: z.string(),
+  outputSymbol: z.string().optional(),
+  outputAmount: z.string(),
+  // Output tokens received per input token, in UI units
+  price: z.string(),
+  hops: z.array(SwapHopSchema),
+});
+
+// Native SOL is reported with mint `SOL`; wrapped SOL keeps its mint address
+export const NATIVE_SOL_MINT = 'SOL';
+
+export const AccountBalanceChangeSchema = z.object({
+  account: z.string(),
+  accountIndex: z.number(),
+  owner: z.string(),
+  mint: z.string(),
+  decimals: z.number(),
+  preAmount: z.string(),
+  postAmount: z.string(),
+  rawChange: z.string(),
+  change: z.string(),
+});
+
+export const OwnerBalanceChangeSchema = z.object({
+  owner: z.string(),
+  mint: z.string(),
+  decimals: z.number(),
+  rawChange: z.string(),
+  change: z.string(),
+});
+
+export const BalanceChangesSchema = z.object({
+  // The fee is paid by `payer` and excluded from its SOL change below
+  fee: z.object({
+    payer: z.string(),
+    lamports: z.string(),
+    sol: z.string(),
+  }),
+  accounts: z.array(AccountBalanceChangeSchema),
+  owners: z.array(OwnerBalanceChangeSchema),
+});
+
+export const SummarySchema = z.object({
+  totalTransfers: z.number(),
+  uniqueTokens: z.number(),
+  uniquePrograms: z.number(),
+  complexityScore: z.enum(['Simple', 'Moderate', 'Complex', 'Very Complex']),
+  riskLevel: z.enum(RISK_SEVERITIES),
+});
+
+export const TransactionAnalysisSchema = z.object({
+  version: z.literal(ANALYSIS_SCHEMA_VERSION),
+  network: z.object({
+    name: z.string(),
+    cluster: z.string(),
+    currency: z.string(),
+    slot: z.number(),
+    blockTime: z.string(),
+    averageComputeUnits: z.string().optional(),
+  }),
+  transaction: z.object({
+    signature: z.string(),
+    // True for pre-signing simulations: balances, logs and CU are predicted, not final
+    simulated: z.boolean(),
+    feePayer: z.string(),
+    recentBlockhash: z.string(),
+    version: z.union([z.literal('legacy'), z.number()]),
+    status: z.enum(['Success', 'Failed']),
+    fee: z.string(),
+    computeUnits: z.string(),
+  }),
+  costAnalysis: CostAnalysisSchema,
+  accounts: z.array(AccountEntrySchema),
+  addressTableLookups: z.array(AddressTableLookupSchema),
+  actionTypes: z.array(z.string()),
+  transfers: z.array(TransferSchema),
+  actions: z.array(InstructionDetailSchema),
+  interactions: z.array(z.string()),
+  // Upgradeability of every program in `interactions`
+  programs: z.array(ProgramInspectionSchema),
+  securityInfo: z.array(SecurityInfoSchema),
+  // Risk rule findings; summary.riskLevel is the highest severity among them
+  findings: z.array(RiskFindingSchema),
+  otherInstructions: z.array(InstructionDetailSchema),
+  swaps: z.array(SwapActionSchema),
+  balanceChanges: BalanceChangesSchema,
+  logs: z.array(z.string()),
+  // Invocation tree of every top-level instruction, built from logs and decoded instructions
+  invocations: z.array(InvocationNodeSchema),
+  // Per-instruction and per-CPI compute usage derived from the invocation tree
+  computeBreakdown: ComputeBreakdownSchema,
+  // Set when the transaction failed
+  failure: FailureDiagnosisSchema.nullable(),
+  summary: SummarySchema,
+});
+
+export type Token2022Extensions = z.infer<typeof Token2022ExtensionsSchema>;
+export type TokenInfo = z.infer<typeof TokenInfoSchema>;
+export type Transfer = z.infer<typeof TransferSchema>;
+export type ProgramEvent = z.infer<typeof ProgramEventSchema>;
+export type InvocationStatus = typeof INVOCATION_STATUSES[number];
+export type SecurityInfo = z.infer<typeof SecurityInfoSchema>;
+export type RiskSeverity = typeof RISK_SEVERITIES[number];
+export type RiskFinding = z.infer<typeof RiskFindingSchema>;
+export type FailureErrorSource = typeof FAILURE_ERROR_SOURCES[number];
+export type FailureDiagnosis = z.infer<typeof FailureDiagnosisSchema>;
+export type AddressTableLookup = z.infer<typeof AddressTableLookupSchema>;
+export type AccountEntry = z.infer<typeof AccountEntrySchema>;
+export type CostAnalysis = z.infer<typeof CostAnalysisSchema>;
+export type ProgramComputeUsage = z.infer<typeof ProgramComputeUsageSchema>;
+export type ComputeBreakdown = z.infer<typeof ComputeBreakdownSchema>;
+export type SwapHop = z.infer<typeof SwapHopSchema>;
+export type SwapAction = z.infer<typeof SwapActionSchema>;
+export type AccountBalanceChange = z.infer<typeof AccountBalanceChangeSchema>;
+export type OwnerBalanceChange = z.infer<typeof OwnerBalanceChangeSchema>;
+export type BalanceChanges = z.infer<typeof BalanceChangesSchema>;
+export type AnalysisSummary = z.infer<typeof SummarySchema>;
+export type TransactionAnalysis = z.infer<typeof TransactionAnalysisSchema>;
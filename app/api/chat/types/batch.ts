@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { RISK_SEVERITIES, TransactionAnalysisSchema } from './analysis';
+
+export const MAX_BATCH_SIZE = 100;
+export const MAX_BATCH_CONCURRENCY = 10;
+
+// One row of the batch table; `error` is set instead of the analysis fields when a signature could not be analyzed
+export const BatchRowSchema = z.object({
+  signature: z.string(),
+  analyzed: z.boolean(),
+  error: z.string().optional(),
+  slot: z.number().nullable(),
+  blockTime: z.string().nullable(),
+  status: z.enum(['Success', 'Failed']).nullable(),
+  actionTypes: z.array(z.string()),
+  feeLamports: z.string().nullable(),
+  computeUnits: z.number().nullable(),
+  riskLevel: z.enum(RISK_SEVERITIES).nullable(),
+  findings: z.number(),
+  transfers: z.number(),
+  programs: z.number(),
+});
+
+// Sum of owner balance changes for one mint across the batch, in raw units and formatted
+export const MintFlowSchema = z.object({
+  mint: z.string(),
+  symbol: z.string().optional(),
+  decimals: z.number(),
+  rawInflow: z.string(),
+  rawOutflow: z.string(),
+  inflow: z.string(),
+  outflow: z.string(),
+  transactions: z.number(),
+});
+
+export const BatchProgramUsageSchema = z.object({
+  programId: z.string(),
+  programName: z.string().optional(),
+  transactions: z.number(),
+});
+
+export const BatchRiskEntrySchema = z.object({
+  signature: z.string(),
+  riskLevel: z.enum(RISK_SEVERITIES),
+  findings: z.array(z.string()),
+});
+
+export const BatchAggregateSchema = z.object({
+  requested: z.number(),
+  analyzed: z.number(),
+  errors: z.number(),
+  // Landed transactions whose status is Failed, out of the analyzed ones
+  failed: z.number(),
+  failurePercent: z.number(),
+  fees: z.object({
+    totalLamports: z.string(),
+    totalSol: z.string(),
+    priorityLamports: z.string(),
+    averageLamports: z.string(),
+  }),
+  computeUnits: z.number(),
+  riskLevels: z.object({ Low: z.number(), Medium: z.number(), High: z.number() }),
+  mints: z.array(MintFlowSchema),
+  programs: z.array(BatchProgramUsageSchema),
+  // Highest risk level first, then most findings
+  highestRisk: z.array(BatchRiskEntrySchema),
+});
+
+export const BatchReportSchema = z.object({
+  cluster: z.string(),
+  aggregate: BatchAggregateSchema,
+  rows: z.array(BatchRowSchema),
+  // Full analyses, in row order, for analyzed signatures; left out of the chat tool result to keep it small
+  analyses: z.array(TransactionAnalysisSchema).optional(),
+});
+
+export type BatchRow = z.infer<typeof BatchRowSchema>;
+export type MintFlow = z.infer<typeof MintFlowSchema>;
+export type BatchProgramUsage = z.infer<typeof BatchProgramUsageSchema>;
+export type BatchRiskEntry = z.infer<typeof BatchRiskEntrySchema>;
+export type BatchAggregate = z.infer<typeof BatchAggregateSchema>;
+export type BatchReport = z.infer<typeof BatchReportSchema>;
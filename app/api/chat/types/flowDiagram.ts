@@ -0,0 +1,17 @@
+import { z } from 'zod';
+
+export const FLOW_DIAGRAM_PART = 'flowDiagram';
+
+// Mermaid flowchart of who sent what to whom, generated on the server from the analysis
+export const FlowDiagramSchema = z.object({
+  type: z.literal(FLOW_DIAGRAM_PART),
+  signature: z.string(),
+  cluster: z.string(),
+  mermaid: z.string(),
+  nodeCount: z.number(),
+  edgeCount: z.number(),
+  // Set when edges beyond the drawing limit were left out
+  truncated: z.boolean(),
+});
+
+export type FlowDiagram = z.infer<typeof FlowDiagramSchema>;
@@ -1,11 +1,11 @@
-export interface TRANSFERS {
-    tokenType: string;
-    token: any;
-    from: string;
-    to: string;
-    value?: string;
-    tokenId?: string;
-    tokenIds?: string[];
-    amounts?: string[];
-    operator?: string;
-  }
\ No newline at end of file
+import { Transfer } from './analysis';
+
+export * from './analysis';
+export * from './addressAnalysis';
+export * from './programInspection';
+export * from './addressLabel';
+export * from './flowDiagram';
+export * from './batch';
+export * from './addressHistory';
+
+export type TRANSFERS = Transfer;
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { AddressLabelSchema } from './addressLabel';
+
+export const PROGRAM_LOADERS = [
+  'Native',
+  'BPF Loader',
+  'Upgradeable BPF Loader',
+  'Loader v4',
+  'Unknown',
+] as const;
+
+export const ProgramUpgradeEventSchema = z.object({
+  signature: z.string(),
+  slot: z.number(),
+  blockTime: z.string().nullable(),
+  instructionName: z.string(),
+  // Set for SetAuthority; null when the authority was removed
+  newAuthority: z.string().nullable().optional(),
+});
+
+export const ProgramInspectionSchema = z.object({
+  programId: z.string(),
+  programName: z.string().optional(),
+  label: AddressLabelSchema.optional(),
+  exists: z.boolean(),
+  executable: z.boolean(),
+  loader: z.enum(PROGRAM_LOADERS),
+  upgradeable: z.boolean(),
+  // Null for immutable programs
+  upgradeAuthority: z.string().nullable(),
+  programDataAddress: z.string().nullable(),
+  lastDeployedSlot: z.number().nullable(),
+  // Size of the deployed ELF, excluding the loader's account header
+  binarySize: z.number().nullable(),
+  recentUpgrades: z.array(ProgramUpgradeEventSchema),
+});
+
+export type ProgramLoader = typeof PROGRAM_LOADERS[number];
+export type ProgramUpgradeEvent = z.infer<typeof ProgramUpgradeEventSchema>;
+export type ProgramInspection = z.infer<typeof ProgramInspectionSchema>;
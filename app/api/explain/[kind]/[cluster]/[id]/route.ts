@@ -0,0 +1,73 @@
+import { streamText } from 'ai';
+import type { NextRequest } from 'next/server';
+import { systemPrompt } from '@/app/api/chat/systemPrompt';
+import { ModelManager, SelectedModel } from '@/app/api/chat/helpers/modelManager';
+import {
+  cacheExplanation,
+  explanationPrompt,
+  getCachedExplanation,
+  loadAddressPermalink,
+  loadTransactionPermalink
+} from '@/app/api/chat/helpers/permalinks';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+function textResponse(text: string) {
+  return new Response(text, { headers: { 'Content-Type': 'text/plain; charset=utf-8' } });
+}
+
+// AI explanation for /tx and /address permalink pages as plain text: a model's earlier explanation is
+// returned as is, otherwise a new one is streamed and stored once it completes. Body: `{ model? }`
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ kind: string; cluster: string; id: string }> }
+) {
+  const { kind, cluster, id } = await params;
+  if (kind !== 'tx' && kind !== 'address') {
+    return jsonResponse({ error: `Unknown permalink ${kind}` }, 404);
+  }
+  const { model: selectedModel } = await request.json().catch(() => ({}));
+
+  let model: SelectedModel;
+  try {
+    model = await ModelManager.getInstance().getModel(selectedModel);
+  } catch (error) {
+    return jsonResponse({ error: (error as Error).message }, selectedModel ? 400 : 500);
+  }
+
+  try {
+    const cached = await getCachedExplanation(cluster, kind, id, model.id);
+    if (cached) return textResponse(cached);
+
+    const analysis = kind === 'tx' ? await loadTransactionPermalink(cluster, id) : await loadAddressPermalink(cluster, id);
+    if (!analysis) {
+      return jsonResponse({ error: `${kind === 'tx' ? 'Transaction' : 'Address'} ${id} not found on ${cluster}` }, 404);
+    }
+
+    const result = streamText({
+      model: model.model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        { role: 'user', content: explanationPrompt(kind, id, analysis) }
+      ],
+      temperature: model.temperature,
+      // Cut-off or empty answers are not worth keeping
+      onFinish: async ({ text, finishReason }) => {
+        if (finishReason === 'stop' && text) await cacheExplanation(cluster, kind, id, model.id, text);
+      }
+    });
+
+    return result.toTextStreamResponse();
+  } catch (error) {
+    console.error('Explanation Error:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
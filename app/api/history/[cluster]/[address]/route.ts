@@ -0,0 +1,56 @@
+import type { NextRequest } from 'next/server';
+import { serializeBigInts } from '@/app/api/chat/helpers';
+import { ChainManager } from '@/app/api/chat/helpers/chainManager';
+import { getAddressHistory } from '@/app/api/chat/helpers/addressHistory';
+import { AddressHistorySchema } from '@/app/api/chat/types';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Address activity timeline; `?before=` (from `nextBefore`), `until=`, `from=`, `to=` and `limit=` page through it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ cluster: string; address: string }> }
+) {
+  const { cluster, address } = await params;
+  const query = request.nextUrl.searchParams;
+
+  const network = await ChainManager.getInstance().getNetwork(cluster);
+  if (!network) {
+    return jsonResponse({ error: `Network ${cluster} not found` }, 404);
+  }
+
+  const limit = query.get('limit');
+  if (limit !== null && !/^\d+$/.test(limit)) {
+    return jsonResponse({ error: '`limit` must be a positive integer' }, 400);
+  }
+
+  try {
+    const history = await getAddressHistory(address, cluster, {
+      before: query.get('before') || undefined,
+      until: query.get('until') || undefined,
+      from: query.get('from') || undefined,
+      to: query.get('to') || undefined,
+      limit: limit === null ? undefined : Number(limit)
+    });
+
+    const result = AddressHistorySchema.safeParse(serializeBigInts(history));
+    if (!result.success) {
+      console.error('History failed schema validation:', result.error.issues);
+      return jsonResponse({ error: 'History failed schema validation', issues: result.error.issues }, 500);
+    }
+
+    return jsonResponse(result.data);
+  } catch (error) {
+    const message = (error as Error).message;
+    const invalidInput = /^Invalid|public key|must not be after/.test(message);
+    return jsonResponse({ error: message }, invalidInput ? 400 : 500);
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
@@ -0,0 +1,15 @@
+import { ModelManager } from '@/app/api/chat/helpers/modelManager';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Usable models and the default, for the model picker; base URLs and keys stay on the server
+export async function GET() {
+  return jsonResponse(await ModelManager.getInstance().listModels());
+}
+
+export const runtime = 'nodejs';
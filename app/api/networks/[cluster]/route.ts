@@ -0,0 +1,34 @@
+import type { NextRequest } from 'next/server';
+import { isAdminRequest } from '@/app/api/chat/helpers/adminAuth';
+import { ChainManager } from '@/app/api/chat/helpers/chainManager';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Admin: remove a network from the networks file
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ cluster: string }> }
+) {
+  if (!isAdminRequest(request)) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  const { cluster } = await params;
+
+  try {
+    if (!(await ChainManager.getInstance().removeNetwork(cluster))) {
+      return jsonResponse({ error: `Network ${cluster} not found` }, 404);
+    }
+    return jsonResponse({ removed: cluster });
+  } catch (error) {
+    console.error('Error removing network:', error);
+    return jsonResponse({ error: (error as Error).message }, 500);
+  }
+}
+
+export const runtime = 'nodejs';
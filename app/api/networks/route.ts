@@ -0,0 +1,56 @@
+import type { NextRequest } from 'next/server';
+import { isAdminRequest } from '@/app/api/chat/helpers/adminAuth';
+import { ChainManager, Network, NetworkSchema } from '@/app/api/chat/helpers/chainManager';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// RPC URLs often carry API keys, so only their count leaves the server
+function publicNetwork(network: Network) {
+  return {
+    name: network.name,
+    cluster: network.cluster,
+    nativeCurrency: network.nativeCurrency,
+    endpointCount: network.rpc.length
+  };
+}
+
+// Registered networks, for the cluster picker
+export async function GET() {
+  const networks = await ChainManager.getInstance().getNetworks();
+  return jsonResponse({ networks: networks.map(publicNetwork) });
+}
+
+// Admin: register a network, or replace the one with the same `cluster`
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+
+  const parsed = NetworkSchema.safeParse(body);
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid network', issues: parsed.error.issues }, 400);
+  }
+
+  try {
+    const network = await ChainManager.getInstance().registerNetwork(parsed.data);
+    return jsonResponse({ network: publicNetwork(network) }, 201);
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error('Error registering network:', error);
+    return jsonResponse({ error: message }, message.includes('needs at least one RPC endpoint') ? 400 : 500);
+  }
+}
+
+export const runtime = 'nodejs';
@@ -0,0 +1,22 @@
+import type { NextRequest } from 'next/server';
+import { ChainManager } from '@/app/api/chat/helpers/chainManager';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// RPC endpoint health, latency and which endpoint served recent calls; `?cluster=` narrows it down
+export async function GET(request: NextRequest) {
+  const cluster = request.nextUrl.searchParams.get('cluster') || undefined;
+
+  if (cluster && !(await ChainManager.getInstance().getNetwork(cluster))) {
+    return jsonResponse({ error: `Network ${cluster} not found` }, 404);
+  }
+
+  return jsonResponse({ clusters: ChainManager.getInstance().getRpcHealth(cluster) });
+}
+
+export const runtime = 'nodejs';
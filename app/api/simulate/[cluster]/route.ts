@@ -0,0 +1,52 @@
+import type { NextRequest } from 'next/server';
+import { serializeBigInts } from '@/app/api/chat/helpers';
+import { ChainManager } from '@/app/api/chat/helpers/chainManager';
+import { simulateTransaction } from '@/app/api/chat/helpers/transactionSimulator';
+import { TransactionAnalysisSchema } from '@/app/api/chat/types';
+
+function jsonResponse(body: unknown, status: number = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+// Pre-signing analysis: POST { "transaction": "<base64>" } with an unsigned or partially signed transaction
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ cluster: string }> }
+) {
+  const { cluster } = await params;
+
+  const network = await ChainManager.getInstance().getNetwork(cluster);
+  if (!network) {
+    return jsonResponse({ error: `Network ${cluster} not found` }, 404);
+  }
+
+  let transaction: unknown;
+  try {
+    ({ transaction } = await request.json());
+  } catch (error) {
+    return jsonResponse({ error: 'Request body must be JSON' }, 400);
+  }
+  if (typeof transaction !== 'string' || !transaction) {
+    return jsonResponse({ error: '`transaction` must be a base64 serialized transaction' }, 400);
+  }
+
+  try {
+    const analysis = await simulateTransaction(transaction, cluster);
+    const result = TransactionAnalysisSchema.safeParse(serializeBigInts(analysis));
+    if (!result.success) {
+      console.error('Analysis failed schema validation:', result.error.issues);
+      return jsonResponse({ error: 'Analysis failed schema validation', issues: result.error.issues }, 500);
+    }
+
+    return jsonResponse(result.data);
+  } catch (error) {
+    const message = (error as Error).message;
+    return jsonResponse({ error: message }, message.startsWith('Invalid transaction') ? 400 : 500);
+  }
+}
+
+export const runtime = 'nodejs';
+export const maxDuration = 15;
@@ -0,0 +1,95 @@
+'use client';
+import React from 'react';
+import { Table2 } from 'lucide-react';
+import type { AccountEntry, AddressLabelCategory, AddressTableLookup } from '../api/chat/types';
+import { formatAddress } from '../utils/formatUtils';
+import { formatLamports } from '../utils/analysisUtils';
+
+interface AccountTableProps {
+  accounts: AccountEntry[];
+  lookups: AddressTableLookup[];
+}
+
+const Badge = ({ label, className }: { label: string; className: string }) => (
+  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${className}`}>{label}</span>
+);
+
+const LABEL_STYLES: Record<AddressLabelCategory, string> = {
+  cex: 'bg-blue-100 text-blue-800',
+  protocol: 'bg-indigo-100 text-indigo-800',
+  'protocol-vault': 'bg-teal-100 text-teal-800',
+  treasury: 'bg-emerald-100 text-emerald-800',
+  scam: 'bg-red-100 text-red-800',
+  other: 'bg-gray-100 text-gray-700'
+};
+
+const AccountTable = ({ accounts, lookups }: AccountTableProps) => {
+  if (!accounts.length) return null;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-slate-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+      <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+        <span className="mr-3 bg-slate-100 p-2 rounded-xl">
+          <Table2 className="w-5 h-5 text-slate-600" />
+        </span>
+        <span>Accounts</span>
+        {lookups.length > 0 && (
+          <span className="ml-auto px-4 py-1.5 text-sm font-medium rounded-full bg-indigo-100 text-indigo-800 border border-indigo-200">
+            {lookups.length} lookup table{lookups.length > 1 ? 's' : ''}
+          </span>
+        )}
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              <th className="py-2 pr-3 font-medium">#</th>
+              <th className="py-2 pr-3 font-medium">Address</th>
+              <th className="py-2 pr-3 font-medium">Flags</th>
+              <th className="py-2 pr-3 font-medium">Source</th>
+              <th className="py-2 pr-3 font-medium text-right">Pre (SOL)</th>
+              <th className="py-2 pr-3 font-medium text-right">Post (SOL)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {accounts.map(account => {
+              const changed = account.preLamports !== account.postLamports;
+              return (
+                <tr key={account.index} className="border-b border-gray-50 last:border-0 hover:bg-gray-50">
+                  <td className="py-2 pr-3 text-gray-500">{account.index}</td>
+                  <td className="py-2 pr-3 text-gray-700" title={account.address}>
+                    <span className="font-mono">{formatAddress(account.address)}</span>
+                    {account.label && (
+                      <span className="ml-2">
+                        <Badge label={account.label.name} className={LABEL_STYLES[account.label.category]} />
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-3">
+                    <div className="flex gap-1">
+                      {account.signer && <Badge label="Signer" className="bg-purple-100 text-purple-800" />}
+                      {account.writable
+                        ? <Badge label="Writable" className="bg-yellow-100 text-yellow-800" />
+                        : <Badge label="Readonly" className="bg-gray-100 text-gray-600" />}
+                    </div>
+                  </td>
+                  <td className="py-2 pr-3 text-gray-600">
+                    {account.source === 'lookupTable'
+                      ? <span title={account.lookupTable}>ALT {formatAddress(account.lookupTable || '')} [{account.lookupTableIndex}]</span>
+                      : 'Static'}
+                  </td>
+                  <td className="py-2 pr-3 text-right text-gray-700">{formatLamports(account.preLamports)}</td>
+                  <td className={`py-2 pr-3 text-right ${changed ? 'text-indigo-700 font-medium' : 'text-gray-700'}`}>
+                    {formatLamports(account.postLamports)}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default AccountTable;
@@ -0,0 +1,139 @@
+'use client';
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight, History, Loader2, Search, AlertTriangle } from 'lucide-react';
+import type { AddressHistory } from '../api/chat/types';
+import AddressTimeline from './AddressTimeline';
+import ClusterPicker from './ClusterPicker';
+
+export interface HistoryQuery {
+  address: string;
+  cluster: string;
+  from: string;
+  to: string;
+}
+
+interface AddressHistoryViewProps {
+  initialQuery: HistoryQuery;
+}
+
+const inputClass = 'px-3 py-2 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// History page: query form, timeline and Older/Newer paging through `nextBefore` cursors
+const AddressHistoryView = ({ initialQuery }: AddressHistoryViewProps) => {
+  const [form, setForm] = useState<HistoryQuery>(initialQuery);
+  const [query, setQuery] = useState<HistoryQuery | null>(initialQuery.address ? initialQuery : null);
+  // `before` cursor of every page visited so far; the last one is the current page
+  const [cursors, setCursors] = useState<(string | undefined)[]>([undefined]);
+  const [history, setHistory] = useState<AddressHistory | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (current: HistoryQuery, before?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (current.from) params.set('from', current.from);
+      if (current.to) params.set('to', current.to);
+      if (before) params.set('before', before);
+
+      const response = await fetch(`/api/history/${current.cluster}/${current.address}?${params}`);
+      const body = await response.json();
+      if (!response.ok) throw new Error(body.error || 'Failed to load history');
+      setHistory(body as AddressHistory);
+    } catch (error) {
+      setHistory(null);
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (query) load(query, cursors[cursors.length - 1]);
+  }, [query, cursors, load]);
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!form.address.trim()) return;
+
+    const next = { ...form, address: form.address.trim() };
+    const params = new URLSearchParams(Object.entries(next).filter(([, value]) => value));
+    window.history.replaceState(null, '', `/history?${params}`);
+    setCursors([undefined]);
+    setQuery(next);
+  };
+
+  const onClusterChange = useCallback((cluster: string) => setForm(current => ({ ...current, cluster })), []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <div className="flex items-center justify-between px-6 py-3 bg-white border-b">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-gradient-to-r from-indigo-500 to-purple-500 rounded-xl">
+            <History className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Address History</h1>
+            <p className="text-sm text-gray-500">Classified activity timeline</p>
+          </div>
+        </div>
+        <Link href="/" className="text-sm text-indigo-600 hover:text-indigo-800">Back to explorer</Link>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6">
+        <form onSubmit={submit} className="flex flex-wrap items-center gap-3 mb-6">
+          <input
+            value={form.address}
+            onChange={event => setForm({ ...form, address: event.target.value })}
+            placeholder="Address"
+            className={`flex-1 min-w-[280px] font-mono ${inputClass}`}
+          />
+          <input type="date" value={form.from} onChange={event => setForm({ ...form, from: event.target.value })} className={inputClass} title="From" />
+          <input type="date" value={form.to} onChange={event => setForm({ ...form, to: event.target.value })} className={inputClass} title="To" />
+          <ClusterPicker value={form.cluster} onChange={onClusterChange} />
+          <button
+            type="submit"
+            disabled={loading || !form.address.trim()}
+            className="px-6 py-2 bg-gradient-to-r from-indigo-500 to-purple-500 text-white rounded-lg hover:shadow-lg disabled:opacity-50 flex items-center gap-2"
+          >
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+            <span>Load</span>
+          </button>
+        </form>
+
+        {error && (
+          <div className="mb-4 flex items-center gap-3 p-4 bg-red-50 rounded-xl border border-red-100 text-red-700">
+            <AlertTriangle className="w-5 h-5 text-red-500" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {history && <AddressTimeline history={history} />}
+
+        {history && (
+          <div className="flex items-center justify-between mt-2">
+            <button
+              onClick={() => setCursors(cursors.slice(0, -1))}
+              disabled={loading || cursors.length <= 1}
+              className="px-4 py-2 bg-white border border-gray-200 rounded-lg disabled:opacity-50 flex items-center gap-1"
+            >
+              <ChevronLeft className="w-4 h-4" /> Newer
+            </button>
+            <span className="text-sm text-gray-500">Page {cursors.length} · {history.scanned} signatures scanned</span>
+            <button
+              onClick={() => history.nextBefore && setCursors([...cursors, history.nextBefore])}
+              disabled={loading || !history.nextBefore}
+              className="px-4 py-2 bg-white border border-gray-200 rounded-lg disabled:opacity-50 flex items-center gap-1"
+            >
+              Older <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AddressHistoryView;
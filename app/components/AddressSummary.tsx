@@ -0,0 +1,90 @@
+import React from 'react';
+import Link from 'next/link';
+import { Coins, History, MapPin } from 'lucide-react';
+import type { AddressAnalysis } from '../api/chat/types';
+import { formatAddress } from '../utils/formatUtils';
+import { txPermalink } from '../utils/permalinkUtils';
+
+interface AddressSummaryProps {
+  analysis: AddressAnalysis;
+}
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="bg-gray-50 rounded-xl px-4 py-3 min-w-0">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-sm font-medium text-gray-900 break-words">{children}</div>
+  </div>
+);
+
+// Account classification, holdings and recent signatures, rendered on the server for address permalinks
+const AddressSummary = ({ analysis }: AddressSummaryProps) => (
+  <>
+    <div className="bg-white/80 backdrop-blur-sm border border-indigo-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+      <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+        <span className="mr-3 bg-indigo-100 p-2 rounded-xl">
+          <MapPin className="w-5 h-5 text-indigo-600" />
+        </span>
+        <span>{analysis.label?.name || analysis.classification}</span>
+        {analysis.label && (
+          <span className={`ml-auto px-4 py-1.5 text-sm font-medium rounded-full ${analysis.label.category === 'scam' ? 'bg-red-100 text-red-800' : 'bg-indigo-100 text-indigo-800'}`}>
+            {analysis.label.category}
+          </span>
+        )}
+      </h3>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Field label="Classification">{analysis.classification}</Field>
+        <Field label="Balance">{analysis.sol} SOL</Field>
+        <Field label="Owner">
+          {analysis.owner ? analysis.ownerName || <span className="font-mono">{formatAddress(analysis.owner)}</span> : '-'}
+        </Field>
+        <Field label="Data size">{analysis.dataSize.toLocaleString()} bytes</Field>
+      </div>
+    </div>
+
+    {analysis.tokenHoldings.length > 0 && (
+      <div className="bg-white/80 backdrop-blur-sm border border-green-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+        <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <span className="mr-3 bg-green-100 p-2 rounded-xl">
+            <Coins className="w-5 h-5 text-green-600" />
+          </span>
+          <span>Token Holdings</span>
+        </h3>
+        {analysis.tokenHoldings.map(holding => (
+          <div key={holding.tokenAccount} className="flex items-center justify-between py-2 border-b border-gray-100 last:border-0 text-sm">
+            <span className="text-gray-700">{holding.symbol || <span className="font-mono">{formatAddress(holding.mint)}</span>}</span>
+            <span className="text-gray-900 font-medium">{holding.amount}</span>
+          </div>
+        ))}
+      </div>
+    )}
+
+    {analysis.recentSignatures.length > 0 && (
+      <div className="bg-white/80 backdrop-blur-sm border border-purple-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+        <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <span className="mr-3 bg-purple-100 p-2 rounded-xl">
+            <History className="w-5 h-5 text-purple-600" />
+          </span>
+          <span>Recent Transactions</span>
+          <Link
+            href={`/history?cluster=${analysis.cluster}&address=${analysis.address}`}
+            className="ml-auto text-sm font-normal text-indigo-600 hover:text-indigo-800"
+          >
+            Full timeline
+          </Link>
+        </h3>
+        {analysis.recentSignatures.map(entry => (
+          <div key={entry.signature} className="flex items-center gap-4 py-2 border-b border-gray-100 last:border-0 text-sm">
+            <span className="text-gray-600 whitespace-nowrap">{entry.blockTime ? new Date(entry.blockTime).toLocaleString() : '-'}</span>
+            <span className={entry.status === 'Failed' ? 'text-red-600' : 'text-green-700'}>{entry.status}</span>
+            <Link href={txPermalink(analysis.cluster, entry.signature)} className="font-mono text-indigo-600 hover:text-indigo-800">
+              {formatAddress(entry.signature)}
+            </Link>
+            {entry.memo && <span className="text-gray-500 truncate">{entry.memo}</span>}
+          </div>
+        ))}
+      </div>
+    )}
+  </>
+);
+
+export default AddressSummary;
@@ -0,0 +1,188 @@
+'use client';
+import React from 'react';
+import Link from 'next/link';
+import { Activity, Users, Coins, Boxes } from 'lucide-react';
+import type { AddressHistory, HistoryCategory } from '../api/chat/types';
+import { formatAddress } from '../utils/formatUtils';
+import { txPermalink } from '../utils/permalinkUtils';
+
+interface AddressTimelineProps {
+  history: AddressHistory;
+}
+
+const CATEGORY_STYLES: Record<HistoryCategory, { badge: string; bar: string }> = {
+  Swap: { badge: 'bg-indigo-100 text-indigo-800', bar: 'bg-indigo-400' },
+  Liquidity: { badge: 'bg-amber-100 text-amber-800', bar: 'bg-amber-400' },
+  NFT: { badge: 'bg-pink-100 text-pink-800', bar: 'bg-pink-400' },
+  Stake: { badge: 'bg-teal-100 text-teal-800', bar: 'bg-teal-400' },
+  Transfer: { badge: 'bg-blue-100 text-blue-800', bar: 'bg-blue-400' },
+  Failed: { badge: 'bg-red-100 text-red-800', bar: 'bg-red-400' },
+  Other: { badge: 'bg-gray-100 text-gray-700', bar: 'bg-gray-300' }
+};
+
+const CATEGORIES = Object.keys(CATEGORY_STYLES) as HistoryCategory[];
+
+const Card = ({ icon, title, children }: { icon: React.ReactNode; title: string; children: React.ReactNode }) => (
+  <div className="bg-white/80 backdrop-blur-sm border border-indigo-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+    <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+      <span className="mr-3 bg-indigo-100 p-2 rounded-xl">{icon}</span>
+      <span>{title}</span>
+    </h3>
+    {children}
+  </div>
+);
+
+// Stacked bar per day, one segment per category
+const DailyChart = ({ history }: AddressTimelineProps) => {
+  const busiest = Math.max(...history.daily.map(day => day.transactions), 1);
+
+  return (
+    <div>
+      <div className="flex items-end gap-1 h-32">
+        {history.daily.map(day => (
+          <div
+            key={day.date}
+            className="flex-1 min-w-[4px] flex flex-col-reverse"
+            style={{ height: `${(day.transactions / busiest) * 100}%` }}
+            title={`${day.date}: ${day.transactions} transactions${day.failed ? `, ${day.failed} failed` : ''}`}
+          >
+            {CATEGORIES.filter(category => day.categories[category]).map(category => (
+              <div
+                key={category}
+                className={CATEGORY_STYLES[category].bar}
+                style={{ height: `${((day.categories[category] ?? 0) / day.transactions) * 100}%` }}
+              />
+            ))}
+          </div>
+        ))}
+      </div>
+      {history.daily.length > 0 && (
+        <div className="flex justify-between text-xs text-gray-500 mt-2">
+          <span>{history.daily[0].date}</span>
+          <span>{history.daily[history.daily.length - 1].date}</span>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-600">
+        {CATEGORIES.map(category => (
+          <span key={category} className="flex items-center gap-1">
+            <span className={`inline-block w-2.5 h-2.5 rounded-full ${CATEGORY_STYLES[category].bar}`} />
+            {category}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const AddressTimeline = ({ history }: AddressTimelineProps) => {
+  if (!history.entries.length) {
+    return (
+      <div className="bg-white/80 border border-gray-200 rounded-2xl p-6 text-gray-600">
+        No transactions found{history.from || history.to ? ' in this date range' : ''}.
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card icon={<Activity className="w-5 h-5 text-indigo-600" />} title={`Activity (${history.entries.length} transactions)`}>
+        <DailyChart history={history} />
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <Card icon={<Users className="w-5 h-5 text-indigo-600" />} title="Counterparties">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-100">
+                <th className="py-2 pr-3 font-medium">Address</th>
+                <th className="py-2 pr-3 font-medium text-right">Txs</th>
+                <th className="py-2 pr-3 font-medium text-right">Sent</th>
+                <th className="py-2 font-medium text-right">Received</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.counterparties.map(counterparty => (
+                <tr key={counterparty.address} className="border-b border-gray-50 last:border-0">
+                  <td className="py-2 pr-3 text-gray-700" title={counterparty.address}>
+                    {counterparty.label?.name || <span className="font-mono">{formatAddress(counterparty.address)}</span>}
+                  </td>
+                  <td className="py-2 pr-3 text-right text-gray-700">{counterparty.transactions}</td>
+                  <td className="py-2 pr-3 text-right text-gray-600">{counterparty.sent}</td>
+                  <td className="py-2 text-right text-gray-600">{counterparty.received}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Card>
+
+        <div>
+          <Card icon={<Coins className="w-5 h-5 text-indigo-600" />} title="Volume">
+            <div className="space-y-2">
+              {history.volume.map(flow => (
+                <div key={flow.mint} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                  <span className="text-gray-700" title={flow.mint}>{flow.symbol || formatAddress(flow.mint)}</span>
+                  <span>
+                    <span className="text-green-700">+{flow.inflow}</span> / <span className="text-red-600">-{flow.outflow}</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <Card icon={<Boxes className="w-5 h-5 text-indigo-600" />} title="Most-used programs">
+            <div className="flex flex-wrap gap-2">
+              {history.programs.map(program => (
+                <span key={program.programId} title={program.programId} className="px-3 py-1 text-xs rounded-full bg-indigo-50 text-indigo-700 border border-indigo-100">
+                  {program.programName || formatAddress(program.programId)} · {program.transactions}
+                </span>
+              ))}
+            </div>
+          </Card>
+        </div>
+      </div>
+
+      <Card icon={<Activity className="w-5 h-5 text-indigo-600" />} title="Transactions">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              <th className="py-2 pr-3 font-medium">Time</th>
+              <th className="py-2 pr-3 font-medium">Category</th>
+              <th className="py-2 pr-3 font-medium">Actions</th>
+              <th className="py-2 pr-3 font-medium">Balance changes</th>
+              <th className="py-2 font-medium">Signature</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.entries.map(entry => (
+              <tr key={entry.signature} className="border-b border-gray-50 last:border-0 hover:bg-gray-50 align-top">
+                <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">
+                  {entry.blockTime ? new Date(entry.blockTime).toLocaleString() : '-'}
+                </td>
+                <td className="py-2 pr-3">
+                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${CATEGORY_STYLES[entry.category].badge}`}>
+                    {entry.category}
+                  </span>
+                </td>
+                <td className="py-2 pr-3 text-gray-700">{entry.actionTypes.slice(0, 3).join(', ')}</td>
+                <td className="py-2 pr-3 text-gray-700">
+                  {entry.changes.map(change => (
+                    <div key={change.mint} className={change.change.startsWith('-') ? 'text-red-600' : 'text-green-700'}>
+                      {change.change.startsWith('-') ? '' : '+'}{change.change} {change.symbol || formatAddress(change.mint)}
+                    </div>
+                  ))}
+                </td>
+                <td className="py-2 font-mono" title={entry.signature}>
+                  <Link href={txPermalink(history.cluster, entry.signature)} className="text-indigo-600 hover:text-indigo-800">
+                    {formatAddress(entry.signature)}
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </Card>
+    </>
+  );
+};
+
+export default AddressTimeline;
@@ -0,0 +1,177 @@
+'use client';
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { ArrowDown, ArrowUp, Layers } from 'lucide-react';
+import type { BatchReport, BatchRow, RiskSeverity } from '../api/chat/types';
+import { formatAddress } from '../utils/formatUtils';
+import { txPermalink } from '../utils/permalinkUtils';
+import { formatLamports } from '../utils/analysisUtils';
+
+interface BatchReportTableProps {
+  report: BatchReport;
+}
+
+type SortKey = 'blockTime' | 'status' | 'type' | 'fee' | 'computeUnits' | 'risk' | 'findings';
+
+const RISK_RANK: Record<RiskSeverity, number> = { Low: 0, Medium: 1, High: 2 };
+
+const RISK_STYLES: Record<RiskSeverity, string> = {
+  Low: 'bg-green-100 text-green-800',
+  Medium: 'bg-yellow-100 text-yellow-800',
+  High: 'bg-red-100 text-red-800'
+};
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'blockTime', label: 'Time' },
+  { key: 'status', label: 'Status' },
+  { key: 'type', label: 'Type' },
+  { key: 'fee', label: 'Fee (SOL)', numeric: true },
+  { key: 'computeUnits', label: 'CU', numeric: true },
+  { key: 'risk', label: 'Risk' },
+  { key: 'findings', label: 'Findings', numeric: true }
+];
+
+// Rows that could not be analyzed sort below everything else in both directions
+const sortValue = (row: BatchRow, key: SortKey): string | number | null => {
+  if (!row.analyzed) return null;
+  switch (key) {
+    case 'blockTime': return row.blockTime;
+    case 'status': return row.status;
+    case 'type': return row.actionTypes.join(', ');
+    case 'fee': return row.feeLamports === null ? null : Number(row.feeLamports);
+    case 'computeUnits': return row.computeUnits;
+    case 'risk': return row.riskLevel === null ? null : RISK_RANK[row.riskLevel];
+    case 'findings': return row.findings;
+  }
+};
+
+const Stat = ({ label, value }: { label: string; value: string }) => (
+  <div className="bg-gray-50 rounded-xl px-4 py-3">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-lg font-semibold text-gray-900">{value}</div>
+  </div>
+);
+
+const BatchReportTable = ({ report }: BatchReportTableProps) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'blockTime', descending: true });
+  const { aggregate } = report;
+
+  const rows = useMemo(() => {
+    return [...report.rows].sort((a, b) => {
+      const x = sortValue(a, sort.key);
+      const y = sortValue(b, sort.key);
+      if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+      const order = x < y ? -1 : x > y ? 1 : 0;
+      return sort.descending ? -order : order;
+    });
+  }, [report.rows, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort(current => ({ key, descending: current.key === key ? !current.descending : true }));
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-violet-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+      <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+        <span className="mr-3 bg-violet-100 p-2 rounded-xl">
+          <Layers className="w-5 h-5 text-violet-600" />
+        </span>
+        <span>Batch Report</span>
+        <span className="ml-auto px-4 py-1.5 text-sm font-medium rounded-full bg-violet-100 text-violet-800 border border-violet-200">
+          {aggregate.analyzed} / {aggregate.requested} analyzed
+        </span>
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+        <Stat label="Failure rate" value={`${aggregate.failurePercent}% (${aggregate.failed})`} />
+        <Stat label="Total fees" value={`${aggregate.fees.totalSol} SOL`} />
+        <Stat label="Compute units" value={aggregate.computeUnits.toLocaleString()} />
+        <Stat label="High / Medium risk" value={`${aggregate.riskLevels.High} / ${aggregate.riskLevels.Medium}`} />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-100">
+              <th className="py-2 pr-3 font-medium">Signature</th>
+              {COLUMNS.map(column => (
+                <th key={column.key} className={`py-2 pr-3 font-medium ${column.numeric ? 'text-right' : ''}`}>
+                  <button
+                    onClick={() => toggleSort(column.key)}
+                    className="inline-flex items-center gap-1 hover:text-gray-900"
+                  >
+                    {column.label}
+                    {sort.key === column.key && (sort.descending
+                      ? <ArrowDown className="w-3 h-3" />
+                      : <ArrowUp className="w-3 h-3" />)}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.signature} className="border-b border-gray-50 last:border-0 hover:bg-gray-50">
+                <td className="py-2 pr-3 font-mono" title={row.signature}>
+                  <Link href={txPermalink(report.cluster, row.signature)} className="text-indigo-600 hover:text-indigo-800">
+                    {formatAddress(row.signature)}
+                  </Link>
+                </td>
+                {row.analyzed ? (
+                  <>
+                    <td className="py-2 pr-3 text-gray-600 whitespace-nowrap">
+                      {row.blockTime ? new Date(row.blockTime).toLocaleString() : '-'}
+                    </td>
+                    <td className={`py-2 pr-3 ${row.status === 'Failed' ? 'text-red-600' : 'text-green-700'}`}>{row.status}</td>
+                    <td className="py-2 pr-3 text-gray-700">{row.actionTypes.join(', ') || '-'}</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{row.feeLamports ? formatLamports(row.feeLamports) : '-'}</td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{row.computeUnits?.toLocaleString() ?? '-'}</td>
+                    <td className="py-2 pr-3">
+                      {row.riskLevel && (
+                        <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${RISK_STYLES[row.riskLevel]}`}>{row.riskLevel}</span>
+                      )}
+                    </td>
+                    <td className="py-2 pr-3 text-right text-gray-700">{row.findings}</td>
+                  </>
+                ) : (
+                  <td colSpan={COLUMNS.length} className="py-2 pr-3 text-red-600">{row.error || 'Not analyzed'}</td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {aggregate.mints.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Flows per token</h4>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {aggregate.mints.map(flow => (
+              <div key={flow.mint} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                <span className="text-gray-700" title={flow.mint}>{flow.symbol || formatAddress(flow.mint)}</span>
+                <span className="text-gray-600">
+                  <span className="text-green-700">+{flow.inflow}</span> / <span className="text-red-600">-{flow.outflow}</span>
+                  <span className="text-gray-400"> · {flow.transactions} tx</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {aggregate.programs.length > 0 && (
+        <div className="mt-6">
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">Programs touched</h4>
+          <div className="flex flex-wrap gap-2">
+            {aggregate.programs.map(program => (
+              <span key={program.programId} title={program.programId} className="px-3 py-1 text-xs rounded-full bg-indigo-50 text-indigo-700 border border-indigo-100">
+                {program.programName || formatAddress(program.programId)} · {program.transactions}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchReportTable;
@@ -1,14 +1,29 @@
 'use client';
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
 import { useChat } from 'ai/react';
-import { Search, Loader2, XCircle, RefreshCw, AlertTriangle, ArrowRight, Sparkles } from 'lucide-react';
+import { Search, Loader2, XCircle, RefreshCw, AlertTriangle, ArrowRight, Sparkles, Link2 } from 'lucide-react';
 import { formatAssistantMessage } from '../utils/messageFormatter';
 import { formatAddress } from '../utils/formatUtils';
-import mermaid from 'mermaid';
+import { getLatestAnalysis, getLatestBatchReport, getLatestFlowDiagram } from '../utils/analysisUtils';
+import { txPermalink } from '../utils/permalinkUtils';
+import AccountTable from './AccountTable';
+import ComputeFlameGraph from './ComputeFlameGraph';
+import FlowDiagramPanel from './FlowDiagramPanel';
+import ClusterPicker from './ClusterPicker';
+import ModelPicker from './ModelPicker';
+import BatchReportTable from './BatchReportTable';
+import ExportMenu from './ExportMenu';
 
 const BlockchainExplorer = () => {
   const messagesEndRef = useRef(null);
-  const { messages, input, handleInputChange, handleSubmit, isLoading, error, reload, stop } = useChat();
+  const reportRef = useRef<HTMLDivElement>(null);
+  const [cluster, setCluster] = useState('mainnet-beta');
+  // Empty until the picker has loaded the configured models; the route then uses its default
+  const [model, setModel] = useState('');
+  const { messages, data, input, handleInputChange, handleSubmit, isLoading, error, reload, stop } = useChat({
+    body: { cluster, model: model || undefined }
+  });
 
   console.log(messages);
 
@@ -20,14 +35,10 @@ const BlockchainExplorer = () => {
     .filter(m => m.role === 'assistant' && m.content.length > 0)
     .pop();
 
-  useEffect(() => {
-    if (latestAssistantMessage?.content) {
-      // Check if the content includes Mermaid diagram
-      if (latestAssistantMessage.content.includes('graph TD;')) {
-        mermaid.run();
-      }
-    }
-  }, [latestAssistantMessage]);
+  // A batch report replaces the single-transaction panels until another transaction is analyzed
+  const batchReport = getLatestBatchReport(messages);
+  const latestAnalysis = batchReport ? null : getLatestAnalysis(messages);
+  const flowDiagram = batchReport ? null : getLatestFlowDiagram(data, latestAnalysis?.transaction.signature);
 
   return (
     <div className="h-screen flex flex-col">
@@ -42,6 +53,13 @@ const BlockchainExplorer = () => {
             <p className="text-sm text-gray-500">AI-powered transaction analysis</p>
           </div>
         </div>
+        <div className="flex items-center gap-4">
+          <Link href={`/history?cluster=${cluster}`} className="text-sm text-indigo-600 hover:text-indigo-800">
+            Address history
+          </Link>
+          <ModelPicker value={model} onChange={setModel} />
+          <ClusterPicker value={cluster} onChange={setCluster} />
+        </div>
       </div>
 
       {/* Main Content Area */}
@@ -84,12 +102,42 @@ const BlockchainExplorer = () => {
               </div>
             </div>
           ) : (
-            <div 
-              className="prose max-w-none"
-              dangerouslySetInnerHTML={{ 
-                __html: formatAssistantMessage(latestAssistantMessage.content)
-              }} 
-            />
+            <>
+              {!isLoading && (
+                <div className="flex items-start justify-between gap-4">
+                  {/* Simulations have no landed transaction to link to */}
+                  {latestAnalysis && !latestAnalysis.transaction.simulated ? (
+                    <Link
+                      href={txPermalink(latestAnalysis.network.cluster, latestAnalysis.transaction.signature)}
+                      className="flex items-center gap-2 py-1.5 text-sm text-indigo-600 hover:text-indigo-800"
+                    >
+                      <Link2 className="w-4 h-4" />
+                      Permalink
+                    </Link>
+                  ) : <span />}
+                  <ExportMenu
+                    source={{ analysis: latestAnalysis, batchReport, narrative: latestAssistantMessage.content }}
+                    reportRef={reportRef}
+                  />
+                </div>
+              )}
+              <div ref={reportRef}>
+                <div 
+                  className="prose max-w-none"
+                  dangerouslySetInnerHTML={{ 
+                    __html: formatAssistantMessage(latestAssistantMessage.content)
+                  }} 
+                />
+                {batchReport && <BatchReportTable report={batchReport} />}
+                {flowDiagram && <FlowDiagramPanel diagram={flowDiagram} />}
+                {latestAnalysis?.accounts && (
+                  <AccountTable accounts={latestAnalysis.accounts} lookups={latestAnalysis.addressTableLookups || []} />
+                )}
+                {latestAnalysis?.computeBreakdown && (
+                  <ComputeFlameGraph breakdown={latestAnalysis.computeBreakdown} />
+                )}
+              </div>
+            </>
           )}
           
           {isLoading && (
@@ -0,0 +1,55 @@
+'use client';
+import React, { useEffect, useState } from 'react';
+import { Network } from 'lucide-react';
+
+interface NetworkOption {
+  name: string;
+  cluster: string;
+  endpointCount: number;
+}
+
+interface ClusterPickerProps {
+  value: string;
+  onChange: (cluster: string) => void;
+}
+
+// Registered networks from /api/networks, including localnet and custom clusters
+const ClusterPicker = ({ value, onChange }: ClusterPickerProps) => {
+  const [networks, setNetworks] = useState<NetworkOption[]>([]);
+
+  useEffect(() => {
+    fetch('/api/networks')
+      .then(response => response.json())
+      .then(body => setNetworks(body.networks || []))
+      .catch(error => console.warn('Error loading networks:', error));
+  }, []);
+
+  // Fall back to the first network when the selected one is not registered
+  useEffect(() => {
+    if (networks.length && !networks.some(network => network.cluster === value)) {
+      onChange(networks[0].cluster);
+    }
+  }, [networks, value, onChange]);
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <Network className="w-4 h-4 text-indigo-500" />
+      <span>Cluster</span>
+      <select
+        value={value}
+        onChange={event => onChange(event.target.value)}
+        disabled={!networks.length}
+        className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        {networks.length === 0 && <option value={value}>{value}</option>}
+        {networks.map(network => (
+          <option key={network.cluster} value={network.cluster} disabled={network.endpointCount === 0}>
+            {network.name} ({network.cluster})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default ClusterPicker;
@@ -0,0 +1,127 @@
+'use client';
+import React from 'react';
+import { Flame } from 'lucide-react';
+import type { ComputeBreakdown, ComputeFrame } from '../api/chat/types';
+import { formatAddress } from '../utils/formatUtils';
+
+interface ComputeFlameGraphProps {
+  breakdown: ComputeBreakdown;
+}
+
+const PALETTE = [
+  'bg-indigo-400', 'bg-purple-400', 'bg-teal-400', 'bg-amber-400',
+  'bg-rose-400', 'bg-sky-400', 'bg-emerald-400', 'bg-orange-400'
+];
+
+// Stable colour per program, shared by the chart and the table
+const colorFor = (programId: string) => {
+  let hash = 0;
+  for (let i = 0; i < programId.length; i++) {
+    hash = (hash * 31 + programId.charCodeAt(i)) >>> 0;
+  }
+  return PALETTE[hash % PALETTE.length];
+};
+
+const programLabel = (programId: string, programName?: string) => programName || formatAddress(programId);
+
+const frameLabel = (frame: ComputeFrame) =>
+  `${programLabel(frame.programId, frame.programName)}${frame.instructionName ? ` · ${frame.instructionName}` : ''}`;
+
+const formatUnits = (units: number) => units.toLocaleString();
+
+// Builtin programs do not report their usage, so they have no width to draw
+const measured = (frames: ComputeFrame[]) => frames.filter(frame => frame.units);
+
+// Icicle layout: each frame spans its share of the parent, its CPIs stacked underneath
+const FrameBlock = ({ frame, parentUnits, totalUnits }: { frame: ComputeFrame; parentUnits: number; totalUnits: number }) => {
+  const units = frame.units ?? 0;
+  const share = totalUnits > 0 ? ((units / totalUnits) * 100).toFixed(1) : '0';
+  const title = `${frameLabel(frame)}\n${formatUnits(units)} CU (${share}% of transaction)\n`
+    + `${formatUnits(frame.selfUnits ?? 0)} CU in its own code`;
+
+  return (
+    <div className="flex flex-col min-w-0" style={{ width: `${(units / parentUnits) * 100}%` }}>
+      <div
+        className={`h-7 px-2 mr-px mb-px rounded text-xs leading-7 text-white truncate cursor-default hover:opacity-80 ${colorFor(frame.programId)}`}
+        title={title}
+      >
+        {frameLabel(frame)}
+      </div>
+      <div className="flex">
+        {measured(frame.children).map((child, i) => (
+          <FrameBlock key={i} frame={child} parentUnits={units} totalUnits={totalUnits} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ComputeFlameGraph = ({ breakdown }: ComputeFlameGraphProps) => {
+  const frames = measured(breakdown.frames);
+  if (!frames.length) return null;
+
+  const attributed = frames.reduce((sum, frame) => sum + (frame.units ?? 0), 0);
+  const totalUnits = Math.max(breakdown.totalUnits ?? attributed, attributed);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-orange-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+      <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+        <span className="mr-3 bg-orange-100 p-2 rounded-xl">
+          <Flame className="w-5 h-5 text-orange-600" />
+        </span>
+        <span>Compute Breakdown</span>
+        <span className="ml-auto px-4 py-1.5 text-sm font-medium rounded-full bg-orange-100 text-orange-800 border border-orange-200">
+          {formatUnits(totalUnits)} / {formatUnits(breakdown.limit)} CU
+        </span>
+      </h3>
+
+      <div className="flex w-full overflow-hidden">
+        {frames.map((frame, i) => (
+          <FrameBlock key={i} frame={frame} parentUnits={totalUnits} totalUnits={totalUnits} />
+        ))}
+        {breakdown.unattributedUnits > 0 && (
+          <div
+            className="h-7 px-2 rounded text-xs leading-7 text-gray-600 bg-gray-200 truncate"
+            style={{ width: `${(breakdown.unattributedUnits / totalUnits) * 100}%` }}
+            title={`${formatUnits(breakdown.unattributedUnits)} CU not reported in the logs (builtin programs, precompiles or truncated logs)`}
+          >
+            Unattributed
+          </div>
+        )}
+      </div>
+
+      <table className="w-full text-sm mt-6">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-100">
+            <th className="py-2 pr-3 font-medium">Program</th>
+            <th className="py-2 pr-3 font-medium text-right">Calls</th>
+            <th className="py-2 pr-3 font-medium text-right">Own CU</th>
+            <th className="py-2 pr-3 font-medium w-1/3">Share</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.programs.map(program => (
+            <tr key={program.programId} className="border-b border-gray-50 last:border-0 hover:bg-gray-50">
+              <td className="py-2 pr-3 text-gray-700" title={program.programId}>
+                <span className={`inline-block w-2.5 h-2.5 rounded-full mr-2 ${colorFor(program.programId)}`} />
+                {programLabel(program.programId, program.programName)}
+              </td>
+              <td className="py-2 pr-3 text-right text-gray-600">{program.invocations}</td>
+              <td className="py-2 pr-3 text-right text-gray-700">{formatUnits(program.selfUnits)}</td>
+              <td className="py-2 pr-3">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div className={`h-full ${colorFor(program.programId)}`} style={{ width: `${program.percent}%` }} />
+                  </div>
+                  <span className="text-xs text-gray-500 w-12 text-right">{program.percent}%</span>
+                </div>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ComputeFlameGraph;
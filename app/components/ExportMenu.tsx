@@ -0,0 +1,87 @@
+'use client';
+import React, { RefObject, useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  ExportFile,
+  ExportFormat,
+  ExportSource,
+  buildExport,
+  downloadFile,
+  exportFileName,
+  reportToHtml
+} from '../utils/exportUtils';
+
+interface ExportMenuProps {
+  source: ExportSource;
+  // The rendered report, captured for the HTML export
+  reportRef: RefObject<HTMLDivElement | null>;
+}
+
+// Rules of every stylesheet the page can read; cross-origin sheets throw and are skipped
+const collectCss = (): string => {
+  return Array.from(document.styleSheets).map(sheet => {
+    try {
+      return Array.from(sheet.cssRules).map(rule => rule.cssText).join('\n');
+    } catch (error) {
+      console.warn('Stylesheet not inlined:', sheet.href, error);
+      return '';
+    }
+  }).join('\n');
+};
+
+const ExportMenu = ({ source, reportRef }: ExportMenuProps) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const formats: { format: ExportFormat; label: string }[] = [
+    { format: 'json', label: 'JSON' },
+    ...(source.analysis ? [
+      { format: 'transfers-csv' as const, label: 'Transfers CSV' },
+      { format: 'balances-csv' as const, label: 'Balance changes CSV' }
+    ] : []),
+    ...(source.batchReport ? [{ format: 'batch-csv' as const, label: 'Rows CSV' }] : []),
+    { format: 'markdown', label: 'Markdown' },
+    { format: 'html', label: 'HTML' }
+  ];
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      let file: ExportFile;
+      if (format === 'html') {
+        if (!reportRef.current) throw new Error('Report is not rendered');
+        file = {
+          name: exportFileName(source, 'html'),
+          mime: 'text/html',
+          content: reportToHtml(source, reportRef.current.innerHTML, collectCss())
+        };
+      } else {
+        file = buildExport(source, format);
+      }
+      downloadFile(file);
+      setError(null);
+    } catch (exportError) {
+      console.error('Export failed:', exportError);
+      setError((exportError as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2 mb-4">
+      <span className="flex items-center gap-2 text-sm text-gray-600">
+        <Download className="w-4 h-4 text-indigo-500" />
+        Export
+      </span>
+      {formats.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          className="px-3 py-1.5 text-sm bg-white border border-gray-200 rounded-lg text-gray-700 hover:bg-indigo-50 hover:border-indigo-200 transition-colors"
+        >
+          {label}
+        </button>
+      ))}
+      {error && <span className="w-full text-right text-sm text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,61 @@
+'use client';
+import React, { useEffect, useRef, useState } from 'react';
+import { Share2 } from 'lucide-react';
+import mermaid from 'mermaid';
+import type { FlowDiagram } from '../api/chat/types';
+
+interface FlowDiagramPanelProps {
+  diagram: FlowDiagram;
+}
+
+mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', flowchart: { htmlLabels: true } });
+
+let renderCount = 0;
+
+const FlowDiagramPanel = ({ diagram }: FlowDiagramPanelProps) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRenderError(null);
+
+    // mermaid.render needs a document-unique id per call
+    mermaid.render(`flow-diagram-${++renderCount}`, diagram.mermaid)
+      .then(({ svg }) => {
+        if (!cancelled && containerRef.current) containerRef.current.innerHTML = svg;
+      })
+      .catch(error => {
+        console.warn('Flow diagram render error:', error);
+        if (!cancelled) setRenderError((error as Error).message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [diagram.mermaid]);
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-indigo-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+      <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+        <span className="mr-3 bg-indigo-100 p-2 rounded-xl">
+          <Share2 className="w-5 h-5 text-indigo-600" />
+        </span>
+        <span>Transfer Flow</span>
+        <span className="ml-auto px-4 py-1.5 text-sm font-medium rounded-full bg-indigo-100 text-indigo-800 border border-indigo-200">
+          {diagram.edgeCount} flow{diagram.edgeCount === 1 ? '' : 's'}
+        </span>
+      </h3>
+      {renderError ? (
+        <pre className="text-xs text-gray-600 bg-gray-50 rounded-xl p-4 overflow-x-auto">{diagram.mermaid}</pre>
+      ) : (
+        <div ref={containerRef} className="overflow-x-auto flex justify-center" />
+      )}
+      {diagram.truncated && (
+        <p className="mt-3 text-xs text-gray-500">Only the first {diagram.edgeCount} flows are drawn.</p>
+      )}
+    </div>
+  );
+};
+
+export default FlowDiagramPanel;
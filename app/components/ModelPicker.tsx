@@ -0,0 +1,68 @@
+'use client';
+import React, { useEffect, useState } from 'react';
+import { Bot } from 'lucide-react';
+
+interface ModelOption {
+  id: string;
+  name: string;
+  provider: string;
+  providerName: string;
+  hosted: boolean;
+}
+
+interface ModelPickerProps {
+  value: string;
+  onChange: (model: string) => void;
+}
+
+// Configured models from /api/models, grouped by provider; an empty value means the server default
+const ModelPicker = ({ value, onChange }: ModelPickerProps) => {
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/models')
+      .then(response => response.json())
+      .then(body => {
+        setModels(body.models || []);
+        setDefaultModel(body.default || null);
+      })
+      .catch(error => console.warn('Error loading models:', error));
+  }, []);
+
+  // Start from the server default, and fall back to it when the selected model is not offered
+  useEffect(() => {
+    if (models.length && !models.some(model => model.id === value)) {
+      onChange(defaultModel || models[0].id);
+    }
+  }, [models, defaultModel, value, onChange]);
+
+  const providers = Array.from(new Set(models.map(model => model.provider)));
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-600">
+      <Bot className="w-4 h-4 text-indigo-500" />
+      <span>Model</span>
+      <select
+        value={value}
+        onChange={event => onChange(event.target.value)}
+        disabled={!models.length}
+        className="px-3 py-1.5 bg-white border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-50"
+      >
+        {models.length === 0 && <option value={value}>Default</option>}
+        {providers.map(provider => {
+          const options = models.filter(model => model.provider === provider);
+          return (
+            <optgroup key={provider} label={`${options[0].providerName}${options[0].hosted ? '' : ' (self-hosted)'}`}>
+              {options.map(model => (
+                <option key={model.id} value={model.id}>{model.name}</option>
+              ))}
+            </optgroup>
+          );
+        })}
+      </select>
+    </label>
+  );
+};
+
+export default ModelPicker;
@@ -0,0 +1,34 @@
+import React from 'react';
+import Link from 'next/link';
+import { Sparkles } from 'lucide-react';
+
+interface PermalinkHeaderProps {
+  title: string;
+  subtitle: string;
+  cluster: string;
+}
+
+const PermalinkHeader = ({ title, subtitle, cluster }: PermalinkHeaderProps) => (
+  <div className="flex items-center justify-between px-6 py-3 bg-white border-b">
+    <div className="flex items-center gap-3 min-w-0">
+      <div className="p-2 bg-gradient-to-r from-indigo-500 to-purple-500 rounded-xl">
+        <Sparkles className="w-6 h-6 text-white" />
+      </div>
+      <div className="min-w-0">
+        <h1 className="text-xl font-bold text-gray-900">{title}</h1>
+        <p className="text-sm text-gray-500 font-mono truncate">{subtitle}</p>
+      </div>
+    </div>
+    <div className="flex items-center gap-4 text-sm">
+      <span className="px-3 py-1 bg-indigo-50 text-indigo-700 rounded-full">{cluster}</span>
+      <Link href={`/history?cluster=${cluster}`} className="text-indigo-600 hover:text-indigo-800">
+        Address history
+      </Link>
+      <Link href="/" className="text-indigo-600 hover:text-indigo-800">
+        Explorer
+      </Link>
+    </div>
+  </div>
+);
+
+export default PermalinkHeader;
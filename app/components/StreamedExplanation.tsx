@@ -0,0 +1,64 @@
+'use client';
+import React, { useEffect, useRef } from 'react';
+import { useCompletion } from 'ai/react';
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { formatAssistantMessage } from '../utils/messageFormatter';
+
+interface StreamedExplanationProps {
+  // The explanation route for this page, see explanationApi
+  api: string;
+  // Rendered on the server when the default model already explained this page
+  initialExplanation: string | null;
+}
+
+// AI explanation for permalink pages: shows the stored one, or asks the explanation route on mount
+// and renders the answer as it streams
+const StreamedExplanation = ({ api, initialExplanation }: StreamedExplanationProps) => {
+  const { completion, complete, isLoading, error } = useCompletion({
+    api,
+    streamProtocol: 'text',
+    initialCompletion: initialExplanation ?? ''
+  });
+  const requested = useRef(false);
+
+  useEffect(() => {
+    // Effects run twice in development; only one request should go out
+    if (requested.current || initialExplanation) return;
+    requested.current = true;
+    complete('');
+  }, [complete, initialExplanation]);
+
+  return (
+    <>
+      {completion && (
+        <div
+          className="prose max-w-none"
+          dangerouslySetInnerHTML={{ __html: formatAssistantMessage(completion) }}
+        />
+      )}
+      {isLoading && (
+        <div className="bg-white/80 backdrop-blur-sm border border-gray-200 rounded-xl p-4 mb-4 flex items-center gap-4">
+          <Loader2 className="w-5 h-5 animate-spin text-indigo-500" />
+          <span className="text-gray-600">Writing the explanation...</span>
+        </div>
+      )}
+      {error && (
+        <div className="mb-4 flex items-center justify-between p-4 bg-red-50 rounded-xl border border-red-100">
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-500" />
+            <span className="text-red-700">The explanation could not be generated.</span>
+          </div>
+          <button
+            onClick={() => complete('')}
+            className="px-4 py-2 bg-white text-red-500 rounded-lg hover:bg-red-50 transition-colors flex items-center gap-2 border border-red-200"
+          >
+            <RefreshCw className="w-4 h-4" />
+            <span>Retry</span>
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default StreamedExplanation;
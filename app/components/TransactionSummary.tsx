@@ -0,0 +1,79 @@
+import React from 'react';
+import Link from 'next/link';
+import { FileSearch } from 'lucide-react';
+import type { RiskSeverity, TransactionAnalysis } from '../api/chat/types';
+import { formatAddress } from '../utils/formatUtils';
+import { formatLamports } from '../utils/analysisUtils';
+import { addressPermalink } from '../utils/permalinkUtils';
+
+interface TransactionSummaryProps {
+  analysis: TransactionAnalysis;
+}
+
+const RISK_STYLES: Record<RiskSeverity, string> = {
+  Low: 'bg-green-100 text-green-800',
+  Medium: 'bg-yellow-100 text-yellow-800',
+  High: 'bg-red-100 text-red-800'
+};
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="bg-gray-50 rounded-xl px-4 py-3 min-w-0">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-sm font-medium text-gray-900 break-words">{children}</div>
+  </div>
+);
+
+// Decoder output at a glance, rendered on the server so the page is useful before the explanation arrives
+const TransactionSummary = ({ analysis }: TransactionSummaryProps) => {
+  const { transaction, network, summary, findings, failure, costAnalysis } = analysis;
+
+  return (
+    <div className="bg-white/80 backdrop-blur-sm border border-indigo-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+      <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+        <span className="mr-3 bg-indigo-100 p-2 rounded-xl">
+          <FileSearch className="w-5 h-5 text-indigo-600" />
+        </span>
+        <span>{analysis.actionTypes.join(', ') || 'Transaction'}</span>
+        <span className={`ml-auto px-4 py-1.5 text-sm font-medium rounded-full ${transaction.status === 'Failed' ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}`}>
+          {transaction.status}
+        </span>
+        <span className={`ml-2 px-4 py-1.5 text-sm font-medium rounded-full ${RISK_STYLES[summary.riskLevel]}`}>
+          {summary.riskLevel} Risk
+        </span>
+      </h3>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <Field label="Block time">{new Date(network.blockTime).toLocaleString()}</Field>
+        <Field label="Slot">{network.slot.toLocaleString()}</Field>
+        <Field label={`Fee (${network.currency})`}>{formatLamports(costAnalysis.totalFeeLamports)}</Field>
+        <Field label="Compute units">{Number(transaction.computeUnits).toLocaleString()}</Field>
+        <Field label="Fee payer">
+          <Link href={addressPermalink(network.cluster, transaction.feePayer)} className="font-mono text-indigo-600 hover:text-indigo-800">
+            {formatAddress(transaction.feePayer)}
+          </Link>
+        </Field>
+        <Field label="Transfers">{summary.totalTransfers}</Field>
+        <Field label="Programs">{summary.uniquePrograms}</Field>
+        <Field label="Complexity">{summary.complexityScore}</Field>
+      </div>
+
+      {failure && (
+        <div className="bg-red-50 text-red-700 p-4 rounded-xl my-2 border-l-4 border-red-500">
+          {failure.errorName}: {failure.message}
+          {failure.programName && ` (${failure.programName})`}
+        </div>
+      )}
+      {findings.map((finding, i) => (
+        <div key={`${finding.ruleId}-${i}`} className="flex items-start gap-3 py-2 border-b border-gray-100 last:border-0 text-sm">
+          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${RISK_STYLES[finding.severity]}`}>{finding.severity}</span>
+          <div>
+            <div className="font-medium text-gray-900">{finding.title}</div>
+            <div className="text-gray-600">{finding.explanation}</div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default TransactionSummary;
@@ -0,0 +1,30 @@
+import AddressHistoryView from '../components/AddressHistoryView';
+
+export const metadata = {
+  title: 'Address History - AI Explorer',
+  description: 'Classified activity timeline of a Solana address',
+};
+
+// /history?address=...&cluster=...&from=YYYY-MM-DD&to=YYYY-MM-DD
+export default async function HistoryPage({
+  searchParams,
+}: {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}) {
+  const params = await searchParams;
+  const value = (key: string) => {
+    const param = params[key];
+    return (Array.isArray(param) ? param[0] : param) || '';
+  };
+
+  return (
+    <AddressHistoryView
+      initialQuery={{
+        address: value('address'),
+        cluster: value('cluster') || 'mainnet-beta',
+        from: value('from'),
+        to: value('to')
+      }}
+    />
+  );
+}
@@ -0,0 +1,54 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { getCachedExplanation, loadTransactionPermalink } from '@/app/api/chat/helpers/permalinks';
+import { buildFlowDiagram } from '@/app/api/chat/helpers/flowDiagram';
+import PermalinkHeader from '@/app/components/PermalinkHeader';
+import TransactionSummary from '@/app/components/TransactionSummary';
+import StreamedExplanation from '@/app/components/StreamedExplanation';
+import FlowDiagramPanel from '@/app/components/FlowDiagramPanel';
+import AccountTable from '@/app/components/AccountTable';
+import ComputeFlameGraph from '@/app/components/ComputeFlameGraph';
+import { describeTransaction, explanationApi } from '@/app/utils/permalinkUtils';
+
+interface TransactionPageProps {
+  params: Promise<{ cluster: string; signature: string }>;
+}
+
+export async function generateMetadata({ params }: TransactionPageProps): Promise<Metadata> {
+  const { cluster, signature } = await params;
+  const analysis = await loadTransactionPermalink(cluster, signature);
+  if (!analysis) return { title: 'Transaction not found - AI Explorer' };
+
+  const { title, description } = describeTransaction(analysis);
+  return {
+    title: `${title} - AI Explorer`,
+    description,
+    openGraph: { title, description, type: 'article', siteName: 'AISolxplorer' },
+    twitter: { card: 'summary', title, description }
+  };
+}
+
+// /tx/[cluster]/[signature]: decoder output rendered on the server, the AI explanation reused or streamed in after
+export default async function TransactionPage({ params }: TransactionPageProps) {
+  const { cluster, signature } = await params;
+  const analysis = await loadTransactionPermalink(cluster, signature);
+  if (!analysis) notFound();
+  const explanation = await getCachedExplanation(cluster, 'tx', signature);
+
+  const diagram = buildFlowDiagram(analysis);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-indigo-50 via-white to-purple-50">
+      <PermalinkHeader title="Transaction" subtitle={signature} cluster={cluster} />
+      <div className="max-w-5xl mx-auto p-6">
+        <TransactionSummary analysis={analysis} />
+        <StreamedExplanation api={explanationApi('tx', cluster, signature)} initialExplanation={explanation} />
+        {diagram.edgeCount > 0 && <FlowDiagramPanel diagram={diagram} />}
+        <AccountTable accounts={analysis.accounts} lookups={analysis.addressTableLookups} />
+        <ComputeFlameGraph breakdown={analysis.computeBreakdown} />
+      </div>
+    </div>
+  );
+}
+
+export const maxDuration = 60;
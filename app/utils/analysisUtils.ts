@@ -0,0 +1,51 @@
+// utils/analysisUtils.ts
+import type { JSONValue, Message } from 'ai';
+import { FlowDiagramSchema } from '../api/chat/types';
+import type { BatchReport, FlowDiagram, TransactionAnalysis } from '../api/chat/types';
+
+const ANALYSIS_TOOLS = ['analyzeTx', 'simulateTx'];
+const BATCH_TOOL = 'analyzeBatch';
+
+// Parsed payload of the most recent successful call to one of `toolNames`
+const getLatestToolResult = (messages: Message[], toolNames: string[]): { toolName: string; data: unknown } | null => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const invocations = messages[i].toolInvocations || [];
+    for (let j = invocations.length - 1; j >= 0; j--) {
+      const invocation = invocations[j];
+      if (!toolNames.includes(invocation.toolName) || invocation.state !== 'result') continue;
+      if (!invocation.result?.success) continue;
+
+      try {
+        return { toolName: invocation.toolName, data: JSON.parse(invocation.result.data) };
+      } catch (error) {
+        console.warn('Invalid analysis payload:', error);
+      }
+    }
+  }
+  return null;
+};
+
+// Structured analysis returned by the most recent successful analyzeTx or simulateTx tool call
+export const getLatestAnalysis = (messages: Message[]): TransactionAnalysis | null => {
+  const latest = getLatestToolResult(messages, ANALYSIS_TOOLS);
+  return latest ? latest.data as TransactionAnalysis : null;
+};
+
+// Batch report from analyzeBatch, unless a single transaction was analyzed after it
+export const getLatestBatchReport = (messages: Message[]): BatchReport | null => {
+  const latest = getLatestToolResult(messages, [...ANALYSIS_TOOLS, BATCH_TOOL]);
+  return latest?.toolName === BATCH_TOOL ? latest.data as BatchReport : null;
+};
+
+export const formatLamports = (lamports: string | number): string => {
+  return (Number(lamports) / 1e9).toLocaleString(undefined, { maximumFractionDigits: 9 });
+};
+
+// Transfer flow diagram streamed by the chat route as a data part, for the given transaction
+export const getLatestFlowDiagram = (data: JSONValue[] | undefined, signature?: string): FlowDiagram | null => {
+  for (let i = (data?.length ?? 0) - 1; i >= 0; i--) {
+    const parsed = FlowDiagramSchema.safeParse(data![i]);
+    if (parsed.success && (!signature || parsed.data.signature === signature)) return parsed.data;
+  }
+  return null;
+};
@@ -0,0 +1,211 @@
+// utils/exportUtils.ts
+import type { BatchReport, TransactionAnalysis } from '../api/chat/types';
+
+export type ExportFormat = 'json' | 'transfers-csv' | 'balances-csv' | 'batch-csv' | 'markdown' | 'html';
+
+export interface ExportFile {
+  name: string;
+  mime: string;
+  content: string;
+}
+
+// What the right panel is showing: one analysis or a batch report, plus the narrative written for it
+export interface ExportSource {
+  analysis: TransactionAnalysis | null;
+  batchReport: BatchReport | null;
+  narrative: string;
+}
+
+// Acronyms kept upper case when section titles are converted to headings
+const ACRONYMS = ['CPI', 'DEX', 'IDL', 'NFT', 'RPC', 'SOL', 'SPL'];
+
+// Quotes cells that need it and defuses spreadsheet formulas (=, +, @ and non-numeric -)
+const escapeCsvCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (/^[=+@\t\r]/.test(text) || (text.startsWith('-') && Number.isNaN(Number(text)))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string => {
+  return [header, ...rows].map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+export const analysisToJson = (source: ExportSource): string => {
+  return JSON.stringify(source.batchReport || source.analysis, null, 2);
+};
+
+export const transfersToCsv = (analysis: TransactionAnalysis): string => {
+  const { signature } = analysis.transaction;
+  return toCsv(
+    ['signature', 'type', 'mint', 'symbol', 'from', 'from_label', 'to', 'to_label', 'amount', 'fee', 'token_ids'],
+    analysis.transfers.map(transfer => [
+      signature,
+      transfer.tokenType,
+      transfer.tokenType === 'Native' ? 'SOL' : transfer.token.address,
+      transfer.tokenType === 'Native' ? 'SOL' : transfer.token.symbol,
+      transfer.from,
+      transfer.fromLabel?.name,
+      transfer.to,
+      transfer.toLabel?.name,
+      transfer.value,
+      transfer.fee,
+      (transfer.tokenIds || (transfer.tokenId ? [transfer.tokenId] : [])).join(' ')
+    ])
+  );
+};
+
+// Owner-level net changes first, then the per-account rows they were summed from
+export const balanceChangesToCsv = (analysis: TransactionAnalysis): string => {
+  const { signature } = analysis.transaction;
+  const { owners, accounts } = analysis.balanceChanges;
+  return toCsv(
+    ['signature', 'level', 'owner', 'account', 'mint', 'decimals', 'pre_amount', 'post_amount', 'change', 'raw_change'],
+    [
+      ...owners.map(change => [signature, 'owner', change.owner, '', change.mint, change.decimals, '', '', change.change, change.rawChange]),
+      ...accounts.map(change => [
+        signature, 'account', change.owner, change.account, change.mint, change.decimals,
+        change.preAmount, change.postAmount, change.change, change.rawChange
+      ])
+    ]
+  );
+};
+
+export const batchRowsToCsv = (report: BatchReport): string => {
+  return toCsv(
+    ['signature', 'analyzed', 'error', 'slot', 'block_time', 'status', 'types', 'fee_lamports', 'compute_units', 'risk_level', 'findings', 'transfers', 'programs'],
+    report.rows.map(row => [
+      row.signature, row.analyzed, row.error, row.slot, row.blockTime, row.status, row.actionTypes.join(' '),
+      row.feeLamports, row.computeUnits, row.riskLevel, row.findings, row.transfers, row.programs
+    ])
+  );
+};
+
+const toTitle = (heading: string): string => {
+  return heading.toLowerCase().split(' ').map(word => {
+    if (ACRONYMS.includes(word.toUpperCase())) return word.toUpperCase();
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }).join(' ');
+};
+
+const reportTitle = (source: ExportSource): string => {
+  if (source.batchReport) return `Batch report (${source.batchReport.rows.length} transactions)`;
+  if (source.analysis) return `Transaction ${source.analysis.transaction.signature}`;
+  return 'Analysis report';
+};
+
+// Header fields shared by the Markdown and HTML reports
+const reportDetails = (source: ExportSource): [string, string][] => {
+  const details: [string, string][] = [];
+  if (source.analysis) {
+    const { transaction, network } = source.analysis;
+    details.push(['Signature', transaction.signature], ['Cluster', network.cluster], ['Status', transaction.status]);
+  }
+  if (source.batchReport) {
+    details.push(['Cluster', source.batchReport.cluster], ['Transactions', String(source.batchReport.rows.length)]);
+  }
+  details.push(['Exported', new Date().toISOString()]);
+  return details;
+};
+
+// The narrative uses `---Section---` separators and `TITLE:` lines (see the system prompt); Markdown gets headings
+export const reportToMarkdown = (source: ExportSource): string => {
+  const lines = [`# ${reportTitle(source)}`, ''];
+  reportDetails(source).forEach(([key, value]) => lines.push(`- **${key}:** ${value}`));
+
+  source.narrative.split('---Section---').forEach(section => {
+    lines.push('');
+    section.split('\n').map(line => line.trim()).forEach(line => {
+      if (!line) return;
+      if (line === '---Sub Section---') {
+        lines.push('');
+        return;
+      }
+
+      const heading = line.match(/^([^-].*):$/);
+      if (heading) {
+        const isSection = heading[1] === heading[1].toUpperCase();
+        lines.push('', `${isSection ? '##' : '###'} ${isSection ? toTitle(heading[1]) : heading[1]}`, '');
+      } else {
+        lines.push(line.startsWith('-') ? line : `- ${line}`);
+      }
+    });
+  });
+
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+// A single file that renders offline: the page's stylesheets are inlined and `body` is the rendered report
+export const reportToHtml = (source: ExportSource, body: string, css: string): string => {
+  const title = escapeHtml(reportTitle(source));
+  const details = reportDetails(source)
+    .map(([key, value]) => `<div><dt class="font-medium text-gray-500">${escapeHtml(key)}</dt><dd class="text-gray-900 break-all">${escapeHtml(value)}</dd></div>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title}</title>
+<style>
+${css}
+</style>
+</head>
+<body class="bg-gray-50">
+<main class="max-w-5xl mx-auto p-6">
+<header class="bg-white border border-gray-200 rounded-2xl p-6 mb-4">
+<h1 class="text-xl font-bold text-gray-900 mb-4 break-all">${title}</h1>
+<dl class="grid grid-cols-2 gap-3 text-sm">${details}</dl>
+</header>
+${body}
+</main>
+</body>
+</html>
+`;
+};
+
+const baseName = (source: ExportSource): string => {
+  if (source.batchReport) return `batch-${source.batchReport.cluster}-${new Date().toISOString().slice(0, 10)}`;
+  if (source.analysis) return `tx-${source.analysis.transaction.signature.slice(0, 16)}`;
+  return `report-${new Date().toISOString().slice(0, 10)}`;
+};
+
+// Everything but HTML; the HTML report needs the rendered page, see `reportToHtml`
+export const buildExport = (source: ExportSource, format: Exclude<ExportFormat, 'html'>): ExportFile => {
+  const name = baseName(source);
+  switch (format) {
+    case 'json':
+      return { name: `${name}.json`, mime: 'application/json', content: analysisToJson(source) };
+    case 'transfers-csv':
+      if (!source.analysis) throw new Error('No transaction analysis to export');
+      return { name: `${name}-transfers.csv`, mime: 'text/csv', content: transfersToCsv(source.analysis) };
+    case 'balances-csv':
+      if (!source.analysis) throw new Error('No transaction analysis to export');
+      return { name: `${name}-balance-changes.csv`, mime: 'text/csv', content: balanceChangesToCsv(source.analysis) };
+    case 'batch-csv':
+      if (!source.batchReport) throw new Error('No batch report to export');
+      return { name: `${name}-rows.csv`, mime: 'text/csv', content: batchRowsToCsv(source.batchReport) };
+    case 'markdown':
+      return { name: `${name}.md`, mime: 'text/markdown', content: reportToMarkdown(source) };
+  }
+};
+
+export const exportFileName = (source: ExportSource, extension: string): string => `${baseName(source)}.${extension}`;
+
+export const downloadFile = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mime};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.name;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
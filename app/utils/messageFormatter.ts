@@ -108,6 +108,15 @@ export const formatTransferSection = (content: string): string => {
         ${formatTokenTransfers(trimmedPart.replace('Token Transfers (SPL):', '').trim())}
       </div>`;
     }
+    else if (trimmedPart.includes('Net Balance Changes:')) {
+      html += `<div class="bg-gradient-to-r from-blue-50 to-blue-100/50 backdrop-blur-sm border-l-4 border-blue-500 p-4 mb-4 rounded-xl hover:shadow-lg transition-all duration-300">
+        <h4 class="flex items-center text-base font-medium text-gray-900 mb-3">
+          <span class="mr-2">⚖️</span>
+          <span>Net Balance Changes</span>
+        </h4>
+        ${formatList(trimmedPart.replace('Net Balance Changes:', '').trim())}
+      </div>`;
+    }
     else if (trimmedPart.includes('NFT Transfers:')) {
       html += `<div class="bg-gradient-to-r from-pink-50 to-pink-100/50 backdrop-blur-sm border-l-4 border-pink-500 p-4 mb-4 rounded-xl hover:shadow-lg transition-all duration-300">
         <h4 class="flex items-center text-base font-medium text-gray-900 mb-3">
@@ -141,6 +150,15 @@ export const formatAssistantMessage = (content: string): string => {
         ${formatList(trimmedSection.replace('TRANSACTION OVERVIEW:', '').trim())}
       </div>`;
     }
+    else if (trimmedSection.includes('WHY IT FAILED:')) {
+      formattedContent += `<div class="bg-white/80 backdrop-blur-sm border border-red-200 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+        <h3 class="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <span class="mr-3 bg-red-100 p-2 rounded-xl">❌</span>
+          <span>Why It Failed</span>
+        </h3>
+        ${formatList(trimmedSection.replace('WHY IT FAILED:', '').trim())}
+      </div>`;
+    }
     else if (trimmedSection.includes('NETWORK DETAILS:')) {
       formattedContent += `<div class="bg-white/80 backdrop-blur-sm border border-blue-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
         <h3 class="flex items-center text-lg font-semibold text-gray-900 mb-4">
@@ -205,8 +223,50 @@ export const formatAssistantMessage = (content: string): string => {
         ${formatList(trimmedSection.replace('ADDITIONAL INSIGHTS:', '').trim())}
       </div>`;
     }
-    else if (trimmedSection.includes('graph TD;') || trimmedSection.includes('graph LR;') || trimmedSection.includes('sequenceDiagram')) {
-      formattedContent += `<div class="mermaid">${trimmedSection}</div>`;
+    else if (trimmedSection.includes('ADDRESS OVERVIEW:')) {
+      formattedContent += `<div class="bg-white/80 backdrop-blur-sm border border-indigo-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+        <h3 class="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <span class="mr-3 bg-indigo-100 p-2 rounded-xl">📍</span>
+          <span>Address Overview</span>
+        </h3>
+        ${formatList(trimmedSection.replace('ADDRESS OVERVIEW:', '').trim())}
+      </div>`;
+    }
+    else if (trimmedSection.includes('ACCOUNT DETAILS:')) {
+      formattedContent += `<div class="bg-white/80 backdrop-blur-sm border border-blue-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+        <h3 class="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <span class="mr-3 bg-blue-100 p-2 rounded-xl">🗂️</span>
+          <span>Account Details</span>
+        </h3>
+        ${formatList(trimmedSection.replace('ACCOUNT DETAILS:', '').trim())}
+      </div>`;
+    }
+    else if (trimmedSection.includes('TOKEN HOLDINGS:')) {
+      formattedContent += `<div class="bg-white/80 backdrop-blur-sm border border-green-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+        <h3 class="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <span class="mr-3 bg-green-100 p-2 rounded-xl">🪙</span>
+          <span>Token Holdings</span>
+        </h3>
+        ${formatList(trimmedSection.replace('TOKEN HOLDINGS:', '').trim())}
+      </div>`;
+    }
+    else if (trimmedSection.includes('RECENT ACTIVITY:')) {
+      formattedContent += `<div class="bg-white/80 backdrop-blur-sm border border-purple-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+        <h3 class="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <span class="mr-3 bg-purple-100 p-2 rounded-xl">🕒</span>
+          <span>Recent Activity</span>
+        </h3>
+        ${formatList(trimmedSection.replace('RECENT ACTIVITY:', '').trim())}
+      </div>`;
+    }
+    else if (trimmedSection.includes('PROGRAM INSPECTION:')) {
+      formattedContent += `<div class="bg-white/80 backdrop-blur-sm border border-yellow-100 rounded-2xl p-6 mb-4 hover:shadow-xl transition-all duration-300">
+        <h3 class="flex items-center text-lg font-semibold text-gray-900 mb-4">
+          <span class="mr-3 bg-yellow-100 p-2 rounded-xl">🧩</span>
+          <span>Program Inspection</span>
+        </h3>
+        ${formatList(trimmedSection.replace('PROGRAM INSPECTION:', '').trim())}
+      </div>`;
     }
   });
   
@@ -0,0 +1,58 @@
+// utils/permalinkUtils.ts
+import type { AddressAnalysis, TransactionAnalysis } from '../api/chat/types';
+import type { PermalinkKind } from '../api/chat/helpers/permalinks';
+import { formatAddress } from './formatUtils';
+import { formatLamports } from './analysisUtils';
+
+export interface PermalinkSummary {
+  title: string;
+  description: string;
+}
+
+export const txPermalink = (cluster: string, signature: string): string => {
+  return `/tx/${encodeURIComponent(cluster)}/${encodeURIComponent(signature)}`;
+};
+
+export const addressPermalink = (cluster: string, address: string): string => {
+  return `/address/${encodeURIComponent(cluster)}/${encodeURIComponent(address)}`;
+};
+
+// Route that explains a permalink page's transaction or address, reusing earlier explanations
+export const explanationApi = (kind: PermalinkKind, cluster: string, id: string): string => {
+  return `/api/explain/${kind}/${encodeURIComponent(cluster)}/${encodeURIComponent(id)}`;
+};
+
+// One line per link preview: status, type and risk lead, since that is what a chat unfurl shows first
+export const describeTransaction = (analysis: TransactionAnalysis): PermalinkSummary => {
+  const { transaction, network, summary, findings, costAnalysis } = analysis;
+  const type = analysis.actionTypes.slice(0, 2).join(', ') || 'Transaction';
+  const details = [
+    analysis.failure ? `Failed (${analysis.failure.errorName})` : transaction.status,
+    type,
+    `${summary.riskLevel} risk${findings.length ? ` (${findings.length} finding${findings.length === 1 ? '' : 's'})` : ''}`,
+    `${summary.totalTransfers} transfer${summary.totalTransfers === 1 ? '' : 's'}`,
+    // transaction.fee is already in SOL (or 'unknown'); the lamport total is exact
+    `fee ${formatLamports(costAnalysis.totalFeeLamports)} ${network.currency}`
+  ];
+
+  return {
+    title: `${type} ${formatAddress(transaction.signature)} on ${network.name}`,
+    description: details.join(' · ')
+  };
+};
+
+export const describeAddress = (analysis: AddressAnalysis): PermalinkSummary => {
+  const name = analysis.label?.name || formatAddress(analysis.address);
+  const details = [
+    analysis.classification,
+    `${analysis.sol} SOL`,
+    analysis.tokenHoldings.length ? `${analysis.tokenHoldings.length} token account${analysis.tokenHoldings.length === 1 ? '' : 's'}` : null,
+    analysis.ownerName ? `owned by ${analysis.ownerName}` : null,
+    analysis.label?.category === 'scam' ? 'flagged as scam' : null
+  ];
+
+  return {
+    title: `${name} on ${analysis.cluster}`,
+    description: details.filter(Boolean).join(' · ')
+  };
+};